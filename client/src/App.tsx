@@ -9,6 +9,7 @@ import { ThemeToggle } from "@/components/theme-toggle";
 import { AuthProvider, useAuth } from "@/hooks/use-auth";
 import Builder from "@/pages/builder";
 import Dashboard from "@/pages/dashboard";
+import Usage from "@/pages/usage";
 import AuthPage from "@/pages/auth";
 import SharedAppPage from "@/pages/shared-app";
 import { Loader2 } from "lucide-react";
@@ -97,6 +98,7 @@ function AuthenticatedApp() {
             {activePage === "dashboard" && (
               <Dashboard onNewApp={handleNewConversation} />
             )}
+            {activePage === "usage" && <Usage />}
           </main>
         </div>
       </div>
@@ -5,6 +5,8 @@ import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -22,22 +24,36 @@ import {
   DialogTitle,
   DialogDescription,
 } from "@/components/ui/dialog";
-import { Maximize2, Trash2, Calendar, Share2, Copy, Check, ExternalLink } from "lucide-react";
+import { Maximize2, Trash2, Calendar, Share2, Copy, Check, ExternalLink, Download, Upload, Database } from "lucide-react";
 import { SiWhatsapp } from "react-icons/si";
-import type { GeneratedApp } from "@shared/schema";
+import type { AppDataMode, GeneratedApp } from "@shared/schema";
 import { getLanguageName } from "@/lib/languages";
 import { useToast } from "@/hooks/use-toast";
+import { formatBytes, usagePercent, type AppUsage, type UsageLimits } from "@/hooks/use-usage";
+import { ExportDataDialog, ImportDataDialog } from "@/components/app-data-transfer";
+
+const DATA_MODES: { value: AppDataMode; label: string; description: string }[] = [
+  { value: "shared", label: "Shared data", description: "Everyone sees and changes the same data." },
+  { value: "per_visitor", label: "Private data per visitor", description: "Each visitor starts empty and only sees their own data." },
+  { value: "read_only", label: "Read-only for visitors", description: "Visitors see your data but cannot change it." },
+];
 
 interface AppCardProps {
   app: GeneratedApp;
   onOpen: (app: GeneratedApp) => void;
   onDelete: (id: number) => void;
+  /** Left out while usage is loading */
+  usage?: AppUsage;
+  limits?: UsageLimits;
 }
 
-export function AppCard({ app, onOpen, onDelete }: AppCardProps) {
+export function AppCard({ app, onOpen, onDelete, usage, limits }: AppCardProps) {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [showShareDialog, setShowShareDialog] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
   const [shareId, setShareId] = useState<string | null>(app.shareId || null);
+  const [dataMode, setDataMode] = useState<AppDataMode>((app.dataMode as AppDataMode) || "shared");
   const [copied, setCopied] = useState(false);
   const { toast } = useToast();
 
@@ -63,6 +79,25 @@ export function AppCard({ app, onOpen, onDelete }: AppCardProps) {
     },
   });
 
+  const dataModeMutation = useMutation({
+    mutationFn: async (mode: AppDataMode) => {
+      const res = await apiRequest("PUT", `/api/apps/${app.id}/data-mode`, { dataMode: mode });
+      return res.json();
+    },
+    onMutate: (mode) => {
+      const previous = dataMode;
+      setDataMode(mode);
+      return { previous };
+    },
+    onError: (_error, _mode, context) => {
+      if (context) setDataMode(context.previous);
+      toast({ title: "Could not change data mode", variant: "destructive" });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/apps"] });
+    },
+  });
+
   const handleShare = () => {
     if (shareId) {
       setShowShareDialog(true);
@@ -112,17 +147,29 @@ export function AppCard({ app, onOpen, onDelete }: AppCardProps) {
           </div>
           <div className="aspect-video bg-muted rounded-md overflow-hidden border border-border">
             <iframe
-              srcDoc={app.htmlContent}
+              {...(app.files ? { src: `/api/apps/${app.id}/serve` } : { srcDoc: app.htmlContent })}
               className="w-full h-full pointer-events-none"
               sandbox="allow-scripts"
               title={app.title}
             />
           </div>
           <div className="flex items-center justify-between gap-2">
-            <span className="text-xs text-muted-foreground flex items-center gap-1">
-              <Calendar className="w-3 h-3" />
-              {new Date(app.createdAt).toLocaleDateString()}
-            </span>
+            <div className="flex flex-col gap-1 min-w-0">
+              <span className="text-xs text-muted-foreground flex items-center gap-1">
+                <Calendar className="w-3 h-3" />
+                {new Date(app.createdAt).toLocaleDateString()}
+              </span>
+              {usage && limits && (
+                <span
+                  className={`text-xs flex items-center gap-1 ${usagePercent(usage, limits) >= 90 ? "text-destructive" : "text-muted-foreground"}`}
+                  title={`${usagePercent(usage, limits)}% of this app's storage`}
+                  data-testid={`text-app-usage-${app.id}`}
+                >
+                  <Database className="w-3 h-3" />
+                  {usage.docs.toLocaleString()} {usage.docs === 1 ? "document" : "documents"} · {formatBytes(usage.bytes)}
+                </span>
+              )}
+            </div>
             <div className="flex items-center gap-1">
               <Button
                 size="icon"
@@ -135,6 +182,28 @@ export function AppCard({ app, onOpen, onDelete }: AppCardProps) {
               >
                 <Share2 className="w-4 h-4" />
               </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setShowImportDialog(true);
+                }}
+                data-testid={`button-import-data-${app.id}`}
+              >
+                <Upload className="w-4 h-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setShowExportDialog(true);
+                }}
+                data-testid={`button-export-data-${app.id}`}
+              >
+                <Download className="w-4 h-4" />
+              </Button>
               <Button
                 size="icon"
                 variant="ghost"
@@ -159,6 +228,9 @@ export function AppCard({ app, onOpen, onDelete }: AppCardProps) {
         </div>
       </Card>
 
+      <ExportDataDialog app={app} open={showExportDialog} onOpenChange={setShowExportDialog} />
+      <ImportDataDialog app={app} open={showImportDialog} onOpenChange={setShowImportDialog} />
+
       <AlertDialog open={showDeleteConfirm} onOpenChange={setShowDeleteConfirm}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -185,10 +257,30 @@ export function AppCard({ app, onOpen, onDelete }: AppCardProps) {
           <DialogHeader>
             <DialogTitle data-testid="text-share-title">Share "{app.title}"</DialogTitle>
             <DialogDescription>
-              Anyone with this link can view and use your app.
+              Anyone with this link can view and use your app.{" "}
+              {DATA_MODES.find((mode) => mode.value === dataMode)?.description}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
+            <RadioGroup
+              value={dataMode}
+              onValueChange={(value) => dataModeMutation.mutate(value as AppDataMode)}
+              disabled={dataModeMutation.isPending}
+              data-testid="radio-data-mode"
+            >
+              {DATA_MODES.map((mode) => (
+                <div key={mode.value} className="flex items-center gap-2">
+                  <RadioGroupItem
+                    value={mode.value}
+                    id={`data-mode-${app.id}-${mode.value}`}
+                    data-testid={`radio-data-mode-${mode.value}`}
+                  />
+                  <Label htmlFor={`data-mode-${app.id}-${mode.value}`} className="text-sm font-normal">
+                    {mode.label}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
             <div className="flex items-center gap-2">
               <Input
                 readOnly
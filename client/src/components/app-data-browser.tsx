@@ -0,0 +1,367 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Database, Loader2, RefreshCw, Trash2 } from "lucide-react";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import type { GeneratedApp } from "@shared/schema";
+
+interface AppDataBrowserProps {
+  app: GeneratedApp;
+}
+
+interface DataCollection {
+  name: string;
+  count: number;
+  declared: boolean;
+}
+
+interface DataOverview {
+  datasets: string[];
+  collections: DataCollection[];
+}
+
+interface AppDoc {
+  id: string;
+  _ownerId: number | null;
+  _createdAt: string;
+  _updatedAt: string;
+  _version: number;
+  [field: string]: unknown;
+}
+
+interface DataPage {
+  docs: AppDoc[];
+  nextCursor: string | null;
+}
+
+const PAGE_SIZE = 50;
+// The server lists at most this many documents at once
+const MAX_LIMIT = 1000;
+const BUILT_IN_FIELDS = ["id", "_ownerId", "_createdAt", "_updatedAt", "_version"];
+// Select items cannot have an empty value, which is the app's own dataset
+const OWN_DATASET = "app";
+
+function datasetLabel(dataset: string): string {
+  return dataset === "" ? "App data" : dataset.replace(/^visitor:/, "Visitor ");
+}
+
+function documentFields(doc: AppDoc): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(doc).filter(([field]) => !BUILT_IN_FIELDS.includes(field)));
+}
+
+export function AppDataBrowser({ app }: AppDataBrowserProps) {
+  const [dataset, setDataset] = useState("");
+  const [collection, setCollection] = useState<string | null>(null);
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [editing, setEditing] = useState<AppDoc | null>(null);
+  const [draft, setDraft] = useState("");
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [showClearConfirm, setShowClearConfirm] = useState(false);
+  const { toast } = useToast();
+
+  const datasetParam = `dataset=${encodeURIComponent(dataset)}`;
+
+  const { data: overview, isLoading: loadingOverview } = useQuery<DataOverview>({
+    queryKey: ["/api/apps", app.id, "data", dataset],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/apps/${app.id}/data?${datasetParam}`);
+      return res.json();
+    },
+  });
+
+  const { data: page, isLoading: loadingDocs, isFetching: fetchingDocs } = useQuery<DataPage>({
+    queryKey: ["/api/apps", app.id, "data", dataset, collection, limit],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/apps/${app.id}/data/${encodeURIComponent(collection!)}?${datasetParam}&limit=${limit}`);
+      return res.json();
+    },
+    enabled: !!collection,
+  });
+
+  // Open the first collection, and fall back to it when the selected one disappears
+  useEffect(() => {
+    if (!overview) return;
+    if (!collection || !overview.collections.some((c) => c.name === collection)) {
+      setCollection(overview.collections[0]?.name ?? null);
+      setLimit(PAGE_SIZE);
+    }
+  }, [overview, collection]);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/apps", app.id, "data"] });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ doc, data }: { doc: AppDoc; data: Record<string, unknown> }) => {
+      const res = await apiRequest("PUT", `/api/apps/${app.id}/data/${encodeURIComponent(collection!)}/${encodeURIComponent(doc.id)}?${datasetParam}`, { data, ifVersion: doc._version });
+      return res.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setEditing(null);
+      toast({ title: "Document saved" });
+    },
+    onError: (error: Error) => {
+      setDraftError(apiErrorMessage(error));
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (doc: AppDoc) => {
+      await apiRequest("DELETE", `/api/apps/${app.id}/data/${encodeURIComponent(collection!)}/${encodeURIComponent(doc.id)}?${datasetParam}`);
+    },
+    onSuccess: () => {
+      refresh();
+      setEditing(null);
+      toast({ title: "Document deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete document", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async (name: string) => {
+      await apiRequest("DELETE", `/api/apps/${app.id}/data/${encodeURIComponent(name)}?${datasetParam}`);
+    },
+    onSuccess: (_data, name) => {
+      refresh();
+      toast({ title: `Cleared "${name}"` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to clear collection", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const openEditor = (doc: AppDoc) => {
+    setEditing(doc);
+    setDraft(JSON.stringify(documentFields(doc), null, 2));
+    setDraftError(null);
+  };
+
+  const saveDraft = () => {
+    if (!editing) return;
+    let data: unknown;
+    try {
+      data = JSON.parse(draft);
+    } catch {
+      return setDraftError("This is not valid JSON");
+    }
+    if (!data || typeof data !== "object" || Array.isArray(data)) return setDraftError("A document must be a JSON object");
+    saveMutation.mutate({ doc: editing, data: data as Record<string, unknown> });
+  };
+
+  const selected = overview?.collections.find((c) => c.name === collection);
+
+  return (
+    <div className="flex h-full" data-testid="app-data-browser">
+      <aside className="w-56 shrink-0 border-r flex flex-col">
+        {overview && overview.datasets.length > 1 && (
+          <div className="p-2 border-b">
+            <Select
+              value={dataset || OWN_DATASET}
+              onValueChange={(value) => { setDataset(value === OWN_DATASET ? "" : value); setCollection(null); }}
+            >
+              <SelectTrigger className="h-8 text-xs" data-testid="select-dataset">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {overview.datasets.map((name) => (
+                  <SelectItem key={name} value={name || OWN_DATASET} data-testid={`option-dataset-${name || OWN_DATASET}`}>
+                    {datasetLabel(name)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <div className="flex-1 overflow-auto p-2 space-y-1">
+          {loadingOverview && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground m-2" />}
+          {overview?.collections.length === 0 && (
+            <p className="text-xs text-muted-foreground p-2" data-testid="text-no-collections">
+              This app has not saved any data yet.
+            </p>
+          )}
+          {overview?.collections.map((c) => (
+            <button
+              key={c.name}
+              onClick={() => { setCollection(c.name); setLimit(PAGE_SIZE); }}
+              className={cn(
+                "w-full flex items-center justify-between gap-2 rounded-md px-2 py-1.5 text-left text-sm hover-elevate",
+                c.name === collection && "bg-accent",
+              )}
+              data-testid={`button-collection-${c.name}`}
+            >
+              <span className="truncate">{c.name}</span>
+              <Badge variant="secondary" className="text-xs">{c.count}</Badge>
+            </button>
+          ))}
+        </div>
+      </aside>
+
+      <section className="flex-1 flex flex-col min-w-0">
+        {selected ? (
+          <>
+            <div className="flex items-center justify-between gap-2 p-3 border-b">
+              <div className="min-w-0">
+                <h3 className="font-medium text-sm truncate" data-testid="text-collection-name">{selected.name}</h3>
+                <p className="text-xs text-muted-foreground">
+                  {selected.count} {selected.count === 1 ? "document" : "documents"}
+                  {!selected.declared && " · not declared in the app's data schema"}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button size="icon" variant="ghost" onClick={refresh} disabled={fetchingDocs} data-testid="button-refresh-data">
+                  <RefreshCw className={cn("w-4 h-4", fetchingDocs && "animate-spin")} />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setShowClearConfirm(true)}
+                  disabled={selected.count === 0 || clearMutation.isPending}
+                  className="gap-1"
+                  data-testid="button-clear-collection"
+                >
+                  <Trash2 className="w-3 h-3" />
+                  Clear
+                </Button>
+              </div>
+            </div>
+            <div className="flex-1 overflow-auto">
+              {loadingDocs && (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+                </div>
+              )}
+              {page?.docs.length === 0 && (
+                <p className="text-sm text-muted-foreground p-6 text-center" data-testid="text-no-documents">
+                  No documents in this collection.
+                </p>
+              )}
+              {page?.docs.map((doc) => (
+                <div key={doc.id} className="flex items-center gap-3 px-3 py-2 border-b hover-elevate" data-testid={`row-document-${doc.id}`}>
+                  <button onClick={() => openEditor(doc)} className="flex-1 min-w-0 text-left" data-testid={`button-open-document-${doc.id}`}>
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono text-xs truncate">{doc.id}</span>
+                      <span className="text-xs text-muted-foreground shrink-0">{new Date(doc._updatedAt).toLocaleString()}</span>
+                    </div>
+                    <p className="font-mono text-xs text-muted-foreground truncate">{JSON.stringify(documentFields(doc))}</p>
+                  </button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => deleteMutation.mutate(doc)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-document-${doc.id}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              {page?.nextCursor && limit < MAX_LIMIT && (
+                <div className="flex justify-center p-3">
+                  <Button size="sm" variant="ghost" onClick={() => setLimit((n) => Math.min(n + PAGE_SIZE, MAX_LIMIT))} data-testid="button-load-more">
+                    Load more
+                  </Button>
+                </div>
+              )}
+            </div>
+          </>
+        ) : (
+          !loadingOverview && (
+            <div className="flex-1 flex flex-col items-center justify-center gap-2 text-muted-foreground">
+              <Database className="w-8 h-8" />
+              <p className="text-sm">Data the app saves with AppDB shows up here.</p>
+            </div>
+          )
+        )}
+      </section>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="font-mono text-sm" data-testid="text-document-id">{editing?.id}</DialogTitle>
+            <DialogDescription>
+              {editing && (
+                <>
+                  Created {new Date(editing._createdAt).toLocaleString()} · updated {new Date(editing._updatedAt).toLocaleString()}
+                  {editing._ownerId !== null && ` · owner #${editing._ownerId}`}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={draft}
+            onChange={(e) => { setDraft(e.target.value); setDraftError(null); }}
+            className="font-mono text-xs min-h-[300px]"
+            spellCheck={false}
+            data-testid="input-document-json"
+          />
+          {draftError && <p className="text-sm text-destructive" data-testid="text-document-error">{draftError}</p>}
+          <DialogFooter className="gap-2">
+            <Button
+              variant="outline"
+              onClick={() => editing && deleteMutation.mutate(editing)}
+              disabled={deleteMutation.isPending}
+              data-testid="button-delete-document"
+            >
+              Delete
+            </Button>
+            <Button onClick={saveDraft} disabled={saveMutation.isPending} data-testid="button-save-document">
+              {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={showClearConfirm} onOpenChange={setShowClearConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle data-testid="text-clear-confirm-title">Clear "{selected?.name}"</AlertDialogTitle>
+            <AlertDialogDescription>
+              All {selected?.count} documents in this collection will be deleted{dataset ? ` for ${datasetLabel(dataset)}` : ""}. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-clear-cancel">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => selected && clearMutation.mutate(selected.name)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-clear-confirm"
+            >
+              Clear
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
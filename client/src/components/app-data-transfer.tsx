@@ -0,0 +1,317 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Download, Loader2, Upload } from "lucide-react";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { parseCsv } from "@shared/csv";
+import type { AppExportFormat, GeneratedApp } from "@shared/schema";
+
+interface DataTransferDialogProps {
+  app: GeneratedApp;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface DataOverview {
+  datasets: string[];
+  collections: { name: string; count: number; declared: boolean }[];
+}
+
+interface ImportResult {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  imported: number;
+  errors: { row: number; error: string }[];
+  errorCount: number;
+  preview: { row: number; id: string | null; data: Record<string, unknown> }[];
+}
+
+const EXPORT_FORMATS: { value: AppExportFormat; label: string }[] = [
+  { value: "csv", label: "CSV (spreadsheets)" },
+  { value: "json", label: "JSON" },
+  { value: "ndjson", label: "NDJSON (one document per line)" },
+];
+
+// Select items cannot have an empty value
+const ALL_COLLECTIONS = "_all";
+
+function useDataOverview(app: GeneratedApp, enabled: boolean) {
+  return useQuery<DataOverview>({
+    queryKey: ["/api/apps", app.id, "data", ""],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/apps/${app.id}/data?dataset=`);
+      return res.json();
+    },
+    enabled,
+  });
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// A declared field with the same name, else the column name as a field name; built-in columns stay unmapped
+function guessField(column: string, declared: string[]): string {
+  if (column.startsWith("_")) return "";
+  if (normalizeName(column) === "id") return "id";
+  const match = declared.find((field) => normalizeName(field) === normalizeName(column));
+  if (match) return match;
+  const field = column.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+  return /^[0-9]/.test(field) ? `f_${field}` : field;
+}
+
+export function ExportDataDialog({ app, open, onOpenChange }: DataTransferDialogProps) {
+  const [collection, setCollection] = useState(ALL_COLLECTIONS);
+  const [format, setFormat] = useState<AppExportFormat>("csv");
+  const { data: overview } = useDataOverview(app, open);
+
+  const params = new URLSearchParams({ format });
+  if (collection !== ALL_COLLECTIONS) params.set("collection", collection);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle data-testid="text-export-title">Export data</DialogTitle>
+          <DialogDescription>Download what "{app.title}" has saved, to keep a copy or open it in a spreadsheet.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Collection</Label>
+            <Select value={collection} onValueChange={setCollection}>
+              <SelectTrigger data-testid="select-export-collection">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_COLLECTIONS}>All collections</SelectItem>
+                {overview?.collections.map((c) => (
+                  <SelectItem key={c.name} value={c.name}>{c.name} ({c.count})</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <RadioGroup value={format} onValueChange={(value) => setFormat(value as AppExportFormat)} className="gap-2">
+            {EXPORT_FORMATS.map((option) => (
+              <div key={option.value} className="flex items-center gap-2">
+                <RadioGroupItem value={option.value} id={`export-format-${option.value}`} data-testid={`radio-export-format-${option.value}`} />
+                <Label htmlFor={`export-format-${option.value}`} className="font-normal">{option.label}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+        <DialogFooter>
+          <Button asChild className="gap-1" data-testid="button-export-download">
+            <a href={`/api/apps/${app.id}/export?${params}`} download onClick={() => onOpenChange(false)}>
+              <Download className="w-4 h-4" />
+              Download
+            </a>
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function ImportDataDialog({ app, open, onOpenChange }: DataTransferDialogProps) {
+  const [collection, setCollection] = useState("");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csv, setCsv] = useState("");
+  const [columns, setColumns] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+  const { data: overview } = useDataOverview(app, open);
+
+  const declaredFields = Object.keys(app.dataSchema?.collections[collection]?.fields ?? {});
+
+  const reset = () => {
+    setFileName(null);
+    setCsv("");
+    setColumns([]);
+    setMapping({});
+    setResult(null);
+    setError(null);
+  };
+
+  // Any change invalidates the last preview
+  const changed = () => {
+    setResult(null);
+    setError(null);
+  };
+
+  const guessMapping = (header: string[], name: string) => {
+    const declared = Object.keys(app.dataSchema?.collections[name]?.fields ?? {});
+    setMapping(Object.fromEntries(header.map((column) => [column, guessField(column, declared)])));
+  };
+
+  const readFile = async (file: File) => {
+    changed();
+    const text = await file.text();
+    const header = (parseCsv(text)[0] ?? []).map((column) => column.trim());
+    setFileName(file.name);
+    setCsv(text);
+    setColumns(header);
+    guessMapping(header, collection);
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const fields = Object.fromEntries(Object.entries(mapping).filter(([, field]) => field.trim() !== "").map(([column, field]) => [column, field.trim()]));
+      const res = await apiRequest("POST", `/api/apps/${app.id}/import`, { collection, csv, mapping: fields, dryRun });
+      return res.json() as Promise<ImportResult>;
+    },
+    onSuccess: (data) => {
+      if (data.dryRun) return setResult(data);
+      queryClient.invalidateQueries({ queryKey: ["/api/apps", app.id, "data"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/usage"] });
+      toast({
+        title: `Imported ${data.imported} ${data.imported === 1 ? "row" : "rows"} into "${collection}"`,
+        description: data.errorCount > 0 ? `${data.errorCount} rows with errors were skipped.` : undefined,
+      });
+      reset();
+      onOpenChange(false);
+    },
+    onError: (err: Error) => setError(apiErrorMessage(err)),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next) reset(); onOpenChange(next); }}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle data-testid="text-import-title">Import a spreadsheet</DialogTitle>
+          <DialogDescription>
+            Add rows from a CSV file to one of the app's collections. Preview first to see how each column is read and which rows have problems.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="import-collection">Collection</Label>
+              <Input
+                id="import-collection"
+                list="import-collections"
+                value={collection}
+                onChange={(e) => {
+                  changed();
+                  setCollection(e.target.value);
+                  if (columns.length > 0) guessMapping(columns, e.target.value);
+                }}
+                placeholder="e.g. ledger"
+                data-testid="input-import-collection"
+              />
+              <datalist id="import-collections">
+                {overview?.collections.map((c) => <option key={c.name} value={c.name} />)}
+              </datalist>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="import-file">CSV file</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => e.target.files?.[0] && readFile(e.target.files[0])}
+                data-testid="input-import-file"
+              />
+            </div>
+          </div>
+
+          {columns.length > 0 && (
+            <div className="space-y-2">
+              <Label>Columns → fields</Label>
+              <p className="text-xs text-muted-foreground">
+                Leave a field empty to skip the column. Map a column to "id" to update rows imported before instead of adding them again.
+              </p>
+              <datalist id="import-fields">
+                {["id", ...declaredFields].map((field) => <option key={field} value={field} />)}
+              </datalist>
+              <div className="grid grid-cols-2 gap-2" data-testid="import-mapping">
+                {columns.map((column) => (
+                  <div key={column} className="contents">
+                    <span className="text-sm truncate self-center" title={column}>{column}</span>
+                    <Input
+                      list="import-fields"
+                      value={mapping[column] ?? ""}
+                      onChange={(e) => { changed(); setMapping({ ...mapping, [column]: e.target.value }); }}
+                      className="h-8 text-sm"
+                      data-testid={`input-import-field-${column}`}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-destructive" data-testid="text-import-error">{error}</p>}
+
+          {result && (
+            <div className="space-y-2 rounded-md border p-3" data-testid="import-preview">
+              <p className="text-sm">
+                {result.valid} of {result.total} rows are ready to import
+                {result.errorCount > 0 && `; ${result.errorCount} have errors and will be skipped`}.
+              </p>
+              {result.errors.length > 0 && (
+                <ul className="text-xs text-destructive space-y-1 max-h-40 overflow-auto">
+                  {result.errors.map((rowError) => (
+                    <li key={rowError.row} data-testid={`text-import-row-error-${rowError.row}`}>Row {rowError.row}: {rowError.error}</li>
+                  ))}
+                  {result.errorCount > result.errors.length && <li>… and {result.errorCount - result.errors.length} more</li>}
+                </ul>
+              )}
+              {result.preview.length > 0 && (
+                <div className="font-mono text-xs text-muted-foreground space-y-1">
+                  {result.preview.map((doc) => (
+                    <div key={doc.row} className="truncate">
+                      {doc.id ? `${doc.id}: ` : ""}{JSON.stringify(doc.data)}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+        <DialogFooter className="gap-2">
+          {fileName && <span className="text-xs text-muted-foreground self-center mr-auto truncate">{fileName}</span>}
+          <Button
+            variant="outline"
+            onClick={() => importMutation.mutate(true)}
+            disabled={!csv || !collection.trim() || importMutation.isPending}
+            data-testid="button-import-preview"
+          >
+            {importMutation.isPending && importMutation.variables && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+            Preview
+          </Button>
+          <Button
+            onClick={() => importMutation.mutate(false)}
+            disabled={!result || result.valid === 0 || importMutation.isPending}
+            className="gap-1"
+            data-testid="button-import-confirm"
+          >
+            {importMutation.isPending && !importMutation.variables ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            Import {result ? result.valid : ""} rows
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
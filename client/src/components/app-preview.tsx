@@ -1,32 +1,231 @@
-import { X } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { X, GitCompare, RotateCcw, Loader2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
-import type { GeneratedApp } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAppSandbox } from "@/hooks/use-app-sandbox";
+import { useAppDataFeed } from "@/hooks/use-app-data-feed";
+import { AppDataBrowser } from "@/components/app-data-browser";
+import type { GeneratedApp, AppRevisionSummary } from "@shared/schema";
+import type { DiffChunk } from "@shared/diff";
 
 interface AppPreviewProps {
   app: GeneratedApp;
   onClose: () => void;
 }
 
+interface RevisionDiff {
+  from: number;
+  to: number;
+  added: number;
+  removed: number;
+  chunks: DiffChunk[];
+}
+
+const CONTEXT_LINES = 3;
+// Collapse a burst of changes from another device into one reload
+const DATA_RELOAD_DELAY_MS = 1000;
+
+function describeRevision(rev: AppRevisionSummary): string {
+  const date = new Date(rev.createdAt).toLocaleString();
+  if (rev.source === "restore" && rev.restoredFrom) return `v${rev.revision} · restored v${rev.restoredFrom} · ${date}`;
+  return `v${rev.revision} · ${rev.source} · ${date}`;
+}
+
+function DiffView({ chunks }: { chunks: DiffChunk[] }) {
+  return (
+    <div className="font-mono text-xs overflow-auto max-h-[60vh] border rounded-md" data-testid="diff-view">
+      {chunks.map((chunk, i) => {
+        if (chunk.op === "equal" && chunk.lines.length > CONTEXT_LINES * 2 + 1) {
+          const head = i === 0 ? [] : chunk.lines.slice(0, CONTEXT_LINES);
+          const tail = i === chunks.length - 1 ? [] : chunk.lines.slice(-CONTEXT_LINES);
+          const hidden = chunk.lines.length - head.length - tail.length;
+          return (
+            <div key={i}>
+              {head.map((line, j) => <div key={`h${j}`} className="px-2 whitespace-pre">{" " + line}</div>)}
+              <div className="px-2 py-1 bg-muted text-muted-foreground">… {hidden} unchanged lines</div>
+              {tail.map((line, j) => <div key={`t${j}`} className="px-2 whitespace-pre">{" " + line}</div>)}
+            </div>
+          );
+        }
+        const prefix = chunk.op === "add" ? "+" : chunk.op === "remove" ? "-" : " ";
+        return chunk.lines.map((line, j) => (
+          <div
+            key={`${i}-${j}`}
+            className={cn(
+              "px-2 whitespace-pre",
+              chunk.op === "add" && "bg-green-500/15 text-green-700 dark:text-green-400",
+              chunk.op === "remove" && "bg-red-500/15 text-red-700 dark:text-red-400",
+            )}
+          >
+            {prefix + line}
+          </div>
+        ));
+      })}
+    </div>
+  );
+}
+
 export function AppPreview({ app, onClose }: AppPreviewProps) {
+  const [selectedRevision, setSelectedRevision] = useState<number | null>(null);
+  const [showDiff, setShowDiff] = useState(false);
+  const [view, setView] = useState<"app" | "data">("app");
+  const { toast } = useToast();
+
+  const { data: revisions } = useQuery<AppRevisionSummary[]>({
+    queryKey: ["/api/apps", app.id, "revisions"],
+  });
+
+  const currentRevision = revisions?.[0]?.revision ?? app.revision;
+  const viewing = selectedRevision ?? currentRevision;
+  const isCurrent = viewing === currentRevision;
+
+  const { data: diff, isLoading: loadingDiff } = useQuery<RevisionDiff>({
+    queryKey: ["/api/apps", app.id, "revisions", "diff", viewing, currentRevision],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/apps/${app.id}/revisions/diff?from=${viewing}&to=${currentRevision}`);
+      return res.json();
+    },
+    enabled: showDiff && !isCurrent,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revision: number) => {
+      const res = await apiRequest("POST", `/api/apps/${app.id}/revisions/${revision}/restore`);
+      return res.json();
+    },
+    onSuccess: (_data, revision) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/apps"] });
+      setSelectedRevision(null);
+      setShowDiff(false);
+      toast({ title: `Restored v${revision}`, description: "Your app data was kept as it is." });
+    },
+    onError: () => {
+      toast({ title: "Failed to restore revision", variant: "destructive" });
+    },
+  });
+
+  // The preview (and the Data tab) reload when the app's data changes from another device or tab
+  const [clientId] = useState(() => crypto.randomUUID());
+  const [dataVersion, setDataVersion] = useState(0);
+  const reloadTimer = useRef<ReturnType<typeof setTimeout>>();
+  useAppDataFeed(app.id, clientId, () => {
+    clearTimeout(reloadTimer.current);
+    reloadTimer.current = setTimeout(() => {
+      setDataVersion((version) => version + 1);
+      queryClient.invalidateQueries({ queryKey: ["/api/apps", app.id, "data"] });
+    }, DATA_RELOAD_DELAY_MS);
+  }, isCurrent || view === "data");
+  useEffect(() => () => clearTimeout(reloadTimer.current), []);
+
+  const sandbox = useAppSandbox();
+  const serveUrl = isCurrent
+    ? `/api/apps/${app.id}/serve?client=${clientId}`
+    : `/api/apps/${app.id}/serve?revision=${viewing}`;
+
   return (
     <div className="fixed inset-0 z-50 bg-background flex flex-col" data-testid="app-preview-fullscreen">
       <div className="flex items-center justify-between gap-2 p-3 border-b bg-card">
         <h2 className="font-medium text-sm truncate" data-testid="text-preview-title">
           {app.title}
         </h2>
-        <Button size="icon" variant="ghost" onClick={onClose} data-testid="button-close-preview">
-          <X className="w-4 h-4" />
-        </Button>
+        <div className="flex items-center gap-2">
+          <Tabs value={view} onValueChange={(value) => setView(value as "app" | "data")}>
+            <TabsList className="h-8">
+              <TabsTrigger value="app" className="text-xs" data-testid="tab-preview-app">App</TabsTrigger>
+              <TabsTrigger value="data" className="text-xs" data-testid="tab-preview-data">Data</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          {view === "app" && revisions && revisions.length > 1 && (
+            <Select value={String(viewing)} onValueChange={(v) => setSelectedRevision(parseInt(v))}>
+              <SelectTrigger className="h-8 w-auto gap-2 text-xs" data-testid="select-revision">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {revisions.map((rev) => (
+                  <SelectItem key={rev.revision} value={String(rev.revision)} data-testid={`option-revision-${rev.revision}`}>
+                    {describeRevision(rev)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {view === "app" && !isCurrent && (
+            <>
+              <Badge variant="secondary" className="text-xs">Viewing v{viewing}</Badge>
+              <Button size="sm" variant="outline" onClick={() => setShowDiff(true)} className="gap-1" data-testid="button-compare-revision">
+                <GitCompare className="w-3 h-3" />
+                Compare
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => restoreMutation.mutate(viewing)}
+                disabled={restoreMutation.isPending}
+                className="gap-1"
+                data-testid="button-restore-revision"
+              >
+                {restoreMutation.isPending ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCcw className="w-3 h-3" />}
+                Restore
+              </Button>
+            </>
+          )}
+          <Button size="icon" variant="ghost" onClick={onClose} data-testid="button-close-preview">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
       </div>
-      <div className="flex-1 overflow-hidden">
+      {view === "data" && (
+        <div className="flex-1 overflow-hidden">
+          <AppDataBrowser app={app} />
+        </div>
+      )}
+      {/* Stays mounted on the Data tab so switching back does not restart the app */}
+      <div className={cn("flex-1 overflow-hidden", view !== "app" && "hidden")}>
         <iframe
-          src={`/api/apps/${app.id}/serve`}
+          key={`${viewing}-${currentRevision}-${sandbox}-${dataVersion}`}
+          src={serveUrl}
           className="w-full h-full border-0"
-          sandbox="allow-scripts allow-forms allow-modals allow-same-origin allow-popups"
+          sandbox={sandbox}
           allow="camera; microphone; geolocation"
           title={app.title}
         />
       </div>
+
+      <Dialog open={showDiff} onOpenChange={setShowDiff}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle data-testid="text-diff-title">v{viewing} → v{currentRevision}</DialogTitle>
+            <DialogDescription>
+              {diff ? `${diff.added} lines added, ${diff.removed} lines removed since this version.` : "Comparing versions..."}
+            </DialogDescription>
+          </DialogHeader>
+          {loadingDiff || !diff ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <DiffView chunks={diff.chunks} />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
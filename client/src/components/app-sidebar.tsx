@@ -14,7 +14,7 @@ import {
   SidebarFooter,
 } from "@/components/ui/sidebar";
 import { Button } from "@/components/ui/button";
-import { LayoutGrid, MessageSquare, Plus, Trash2, LogOut } from "lucide-react";
+import { LayoutGrid, MessageSquare, Plus, Trash2, LogOut, Gauge } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/hooks/use-auth";
 import type { Conversation } from "@shared/schema";
@@ -93,6 +93,16 @@ export function AppSidebar({
                   <span>My Apps</span>
                 </SidebarMenuButton>
               </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton
+                  onClick={() => onNavigate("usage")}
+                  isActive={activePage === "usage"}
+                  data-testid="nav-usage"
+                >
+                  <Gauge className="w-4 h-4" />
+                  <span>Usage</span>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
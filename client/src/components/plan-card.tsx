@@ -0,0 +1,150 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { ClipboardList, Hammer, Loader2, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { AppPlan } from "@shared/schema";
+
+interface PlanCardProps {
+  conversationId: number;
+  plan: AppPlan;
+  onBuild: () => void;
+  isBuilding?: boolean;
+}
+
+export function PlanCard({ conversationId, plan, onBuild, isBuilding }: PlanCardProps) {
+  const [draft, setDraft] = useState<AppPlan>(plan);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setDraft(plan);
+  }, [plan]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(plan);
+
+  const saveMutation = useMutation({
+    mutationFn: async (next: AppPlan) => {
+      const res = await apiRequest("PUT", `/api/conversations/${conversationId}/plan`, next);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations", conversationId] });
+      toast({ title: "Plan saved" });
+    },
+    onError: () => {
+      toast({ title: "Failed to save plan", variant: "destructive" });
+    },
+  });
+
+  const toggleFeature = (index: number, enabled: boolean) => {
+    setDraft({
+      ...draft,
+      features: draft.features.map((f, i) => (i === index ? { ...f, enabled } : f)),
+    });
+  };
+
+  return (
+    <div className="py-4 px-3" data-testid="card-plan">
+      <Card className="p-4 space-y-4">
+        <div className="flex items-center gap-2">
+          <ClipboardList className="w-4 h-4 text-primary" />
+          <span className="text-sm font-medium">App Plan</span>
+          <Badge variant="secondary" className="text-xs">Editable</Badge>
+        </div>
+
+        <div className="space-y-2">
+          <Input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className="font-medium"
+            data-testid="input-plan-name"
+          />
+          <Textarea
+            value={draft.description}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            className="min-h-[60px] text-sm resize-none"
+            data-testid="input-plan-description"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground uppercase">Features</p>
+          {draft.features.map((feature, i) => (
+            <label key={i} className="flex items-start gap-3 cursor-pointer" data-testid={`plan-feature-${i}`}>
+              <Switch
+                checked={feature.enabled}
+                onCheckedChange={(checked) => toggleFeature(i, checked)}
+                className="mt-0.5"
+                data-testid={`switch-plan-feature-${i}`}
+              />
+              <div className={feature.enabled ? "" : "opacity-50 line-through"}>
+                <p className="text-sm">{feature.title}</p>
+                {feature.description && <p className="text-xs text-muted-foreground">{feature.description}</p>}
+              </div>
+            </label>
+          ))}
+        </div>
+
+        {draft.pages.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-muted-foreground uppercase">Pages</p>
+            <div className="flex flex-wrap gap-1">
+              {draft.pages.map((page) => (
+                <Badge key={page.name} variant="outline" title={page.description}>{page.name}</Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {draft.collections.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-muted-foreground uppercase">Data</p>
+            {draft.collections.map((collection) => (
+              <p key={collection.name} className="text-xs">
+                <span className="font-mono font-medium">{collection.name}</span>
+                <span className="text-muted-foreground"> · {collection.fields.join(", ")}</span>
+              </p>
+            ))}
+          </div>
+        )}
+
+        {isDirty ? (
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="ghost" onClick={() => setDraft(plan)} data-testid="button-plan-reset">
+              Reset
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => saveMutation.mutate(draft)}
+              disabled={saveMutation.isPending || !draft.name.trim()}
+              className="gap-1"
+              data-testid="button-plan-save"
+            >
+              {saveMutation.isPending ? <Loader2 className="w-3 h-3 animate-spin" /> : <Save className="w-3 h-3" />}
+              Save plan
+            </Button>
+          </div>
+        ) : (
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              onClick={onBuild}
+              disabled={isBuilding || !plan.features.some((f) => f.enabled)}
+              className="gap-1"
+              data-testid="button-plan-build"
+            >
+              {isBuilding ? <Loader2 className="w-3 h-3 animate-spin" /> : <Hammer className="w-3 h-3" />}
+              Approve & Build
+            </Button>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
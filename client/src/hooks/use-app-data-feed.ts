@@ -0,0 +1,38 @@
+import { useEffect, useRef } from "react";
+import { appDataEventSchemas, type AppDataChange } from "@shared/events";
+import { readEventStream } from "@/lib/event-stream";
+
+const RETRY_DELAY_MS = 3000;
+
+/**
+ * Follows changes to an app's own data (GET /api/apps/:id/data-events) while `enabled`,
+ * reconnecting when the stream drops. Changes made by the page opened with `clientId`
+ * are skipped, so a preview does not react to its own writes.
+ */
+export function useAppDataFeed(appId: number, clientId: string, onChange: (change: AppDataChange) => void, enabled = true) {
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const controller = new AbortController();
+
+    (async () => {
+      while (!controller.signal.aborted) {
+        try {
+          const response = await fetch(`/api/apps/${appId}/data-events`, { signal: controller.signal });
+          if (!response.ok) throw new Error(`Data feed failed: ${response.status}`);
+          await readEventStream(response, appDataEventSchemas, (event) => {
+            if (event.event === "change" && event.data.clientId !== clientId) onChangeRef.current(event.data);
+          });
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          console.warn("App data feed dropped:", error);
+        }
+        await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS));
+      }
+    })();
+
+    return () => controller.abort();
+  }, [appId, clientId, enabled]);
+}
@@ -0,0 +1,15 @@
+import { useQuery } from "@tanstack/react-query";
+
+const BASE_SANDBOX = "allow-scripts allow-forms allow-modals allow-popups";
+
+/**
+ * iframe sandbox for generated apps. They only get allow-same-origin when the server serves
+ * them from a separate app origin; on the builder's own origin that would hand them our session.
+ */
+export function useAppSandbox(): string {
+  const { data } = useQuery<{ isolated: boolean }>({
+    queryKey: ["/api/app-host"],
+    staleTime: Infinity,
+  });
+  return data?.isolated ? `${BASE_SANDBOX} allow-same-origin` : BASE_SANDBOX;
+}
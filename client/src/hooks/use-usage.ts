@@ -0,0 +1,44 @@
+import { useQuery } from "@tanstack/react-query";
+
+/** What one app keeps in AppDB and AppFiles (GET /api/usage). */
+export interface AppUsage {
+  appId: number;
+  title: string;
+  docs: number;
+  bytes: number;
+  files: number;
+  fileBytes: number;
+}
+
+/** The same quotas apply to every app. */
+export interface UsageLimits {
+  docs: number;
+  bytes: number;
+  files: number;
+  fileBytes: number;
+}
+
+export interface AccountUsage {
+  limits: UsageLimits;
+  apps: AppUsage[];
+}
+
+/** Storage use of all the user's apps; measured again whenever a page showing it opens, since apps keep writing. */
+export function useAccountUsage() {
+  return useQuery<AccountUsage>({
+    queryKey: ["/api/usage"],
+    refetchOnMount: "always",
+  });
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+/** The larger of document count and bytes as a share of its quota, 0 to 100. */
+export function usagePercent(usage: AppUsage, limits: UsageLimits): number {
+  return Math.min(100, Math.round(Math.max(usage.docs / limits.docs, usage.bytes / limits.bytes) * 100));
+}
@@ -1,4 +1,6 @@
 import { useState, useCallback, useRef, useEffect } from "react";
+import { readEventStream } from "@/lib/event-stream";
+import { ttsEventSchemas } from "@shared/events";
 
 interface UseVoiceOptions {
   language: string;
@@ -512,13 +514,9 @@ export function useVoice({
       }
 
       // Read SSE events and accumulate audio chunks
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
       const audioChunks: Uint8Array[] = [];
       let totalBytes = 0;
-      let playbackStarted = false;
       let currentSource: AudioBufferSourceNode | null = null;
-      let sseBuffer = "";
 
       const ctx = getAudioContext();
       if (ctx.state === "suspended") {
@@ -584,59 +582,31 @@ export function useVoice({
       };
 
       // Read the SSE stream
-      let streamDone = false;
       let hasError = false;
 
-      while (!streamDone) {
-        const { done, value } = await reader.read();
-        if (done) {
-          streamDone = true;
-          break;
-        }
-
-        sseBuffer += decoder.decode(value, { stream: true });
-
-        // Parse SSE events from the buffer
-        const lines = sseBuffer.split("\n");
-        sseBuffer = lines.pop() || ""; // Keep incomplete line in buffer
-
-        for (const line of lines) {
-          if (!line.startsWith("data: ")) continue;
-          const jsonStr = line.substring(6).trim();
-          if (!jsonStr) continue;
-
-          try {
-            const event = JSON.parse(jsonStr);
-
-            if (event.audio) {
-              // Decode base64 audio chunk
-              const binaryStr = atob(event.audio);
-              const bytes = new Uint8Array(binaryStr.length);
-              for (let i = 0; i < binaryStr.length; i++) {
-                bytes[i] = binaryStr.charCodeAt(i);
-              }
-              audioChunks.push(bytes);
-              totalBytes += bytes.length;
-              console.log("Sarvam TTS Stream: chunk received,", bytes.length, "bytes, total:", totalBytes);
-            }
-
-            if (event.done) {
-              console.log("Sarvam TTS Stream: all chunks received, total:", totalBytes, "bytes in", audioChunks.length, "chunks");
-              streamDone = true;
-              break;
+      await readEventStream(response, ttsEventSchemas, (event) => {
+        switch (event.event) {
+          case "audio": {
+            // Decode base64 audio chunk
+            const binaryStr = atob(event.data.audio);
+            const bytes = new Uint8Array(binaryStr.length);
+            for (let i = 0; i < binaryStr.length; i++) {
+              bytes[i] = binaryStr.charCodeAt(i);
             }
-
-            if (event.error) {
-              console.warn("Sarvam TTS Stream: server error:", event.error);
-              hasError = true;
-              streamDone = true;
-              break;
-            }
-          } catch {
-            // Skip malformed JSON
+            audioChunks.push(bytes);
+            totalBytes += bytes.length;
+            console.log("Sarvam TTS Stream: chunk received,", bytes.length, "bytes, total:", totalBytes);
+            return;
           }
+          case "done":
+            console.log("Sarvam TTS Stream: all chunks received, total:", totalBytes, "bytes in", audioChunks.length, "chunks");
+            return false;
+          case "error":
+            console.warn("Sarvam TTS Stream: server error:", event.data.message);
+            hasError = true;
+            return false;
         }
-      }
+      });
 
       streamAbortRef.current = null;
 
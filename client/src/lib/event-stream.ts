@@ -0,0 +1,82 @@
+import type { EventMap, EventSchemas, StreamEvent } from "@shared/events";
+
+/** A stream that broke the protocol in shared/events.ts (unknown event, bad JSON, wrong payload). */
+export class EventStreamError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EventStreamError";
+  }
+}
+
+/**
+ * Reads a server-sent-event response and hands each validated event to `onEvent`, along with
+ * the last event id seen. Heartbeat comments are skipped. Returning `false` from `onEvent`
+ * stops reading; otherwise this resolves when the server closes the stream.
+ */
+export async function readEventStream<S extends EventSchemas>(
+  response: Response,
+  schemas: S,
+  onEvent: (event: StreamEvent<EventMap<S>>, lastEventId: string) => boolean | void,
+): Promise<void> {
+  if (!response.body) throw new EventStreamError("Response has no body to stream");
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let lastEventId = "";
+  let name = "";
+  let data: string[] = [];
+
+  // Returns false when the consumer asked to stop
+  const dispatch = (): boolean => {
+    const eventName = name;
+    const payload = data.join("\n");
+    name = "";
+    data = [];
+    if (!eventName && !payload) return true;
+
+    const schema = schemas[eventName];
+    if (!schema) throw new EventStreamError(`Unknown event "${eventName || "(unnamed)"}"`);
+
+    let json: unknown;
+    try {
+      json = JSON.parse(payload);
+    } catch {
+      throw new EventStreamError(`Malformed JSON in "${eventName}" event`);
+    }
+    const parsed = schema.safeParse(json);
+    if (!parsed.success) throw new EventStreamError(`Invalid "${eventName}" event: ${parsed.error.message}`);
+
+    return onEvent({ event: eventName, data: parsed.data } as StreamEvent<EventMap<S>>, lastEventId) !== false;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const rawLine of lines) {
+        const line = rawLine.endsWith("\r") ? rawLine.slice(0, -1) : rawLine;
+        if (line === "") {
+          if (!dispatch()) return;
+          continue;
+        }
+        if (line.startsWith(":")) continue;
+
+        const colon = line.indexOf(":");
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+        if (field === "id") lastEventId = value;
+        else if (field === "event") name = value;
+        else if (field === "data") data.push(value);
+        else throw new EventStreamError(`Unknown field "${field}"`);
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
@@ -11,8 +11,14 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Send, Sparkles, Loader2, Volume2, VolumeX, Mic, Code, ExternalLink } from "lucide-react";
 import { VoiceOverlay } from "@/components/voice-overlay";
+import { PlanCard } from "@/components/plan-card";
 import { useToast } from "@/hooks/use-toast";
-import type { Conversation, Message } from "@shared/schema";
+import { readEventStream, EventStreamError } from "@/lib/event-stream";
+import type { Conversation, Message, BuildJobSummary } from "@shared/schema";
+import { builderEventSchemas, type BuilderEvent } from "@shared/events";
+
+const JOB_RETRY_DELAY_MS = 2000;
+const JOB_MAX_RETRIES = 5;
 
 interface BuilderProps {
   conversationId: number | null;
@@ -26,6 +32,7 @@ export default function Builder({ conversationId, onConversationCreated, onNavig
   const [streamingContent, setStreamingContent] = useState("");
   const [isStreaming, setIsStreaming] = useState(false);
   const [isBuildingApp, setIsBuildingApp] = useState(false);
+  const [buildMode, setBuildMode] = useState<"building" | "editing">("building");
   const [pendingSend, setPendingSend] = useState(false);
   const [autoSpeak, setAutoSpeak] = useState(true);
   const [voiceMode, setVoiceMode] = useState(false);
@@ -40,6 +47,7 @@ export default function Builder({ conversationId, onConversationCreated, onNavig
 
   const sendMessageRef = useRef<(text: string) => void>(() => {});
   const abortControllerRef = useRef<AbortController | null>(null);
+  const followedJobsRef = useRef(new Set<number>());
 
   const handleVoiceResult = useCallback((text: string) => {
     setInputText(text);
@@ -85,7 +93,7 @@ export default function Builder({ conversationId, onConversationCreated, onNavig
     voiceModeRef.current = voiceMode;
   }, [voiceMode]);
 
-  const { data: conversation, isLoading: loadingConversation } = useQuery<Conversation & { messages: Message[] }>({
+  const { data: conversation, isLoading: loadingConversation } = useQuery<Conversation & { messages: Message[]; activeJob?: BuildJobSummary | null }>({
     queryKey: ["/api/conversations", conversationId],
     enabled: !!conversationId,
   });
@@ -96,6 +104,143 @@ export default function Builder({ conversationId, onConversationCreated, onNavig
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages, streamingContent]);
 
+  const streamResponse = useCallback(async (activeConvId: number, source: { url: string; body: object } | { jobId: number }, failureMessage: string) => {
+    try {
+      if (abortControllerRef.current) {
+        abortControllerRef.current.abort();
+      }
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+
+      let fullResponse = "";
+      let wasAppCreated = false;
+      let isBuildingPhase = false;
+      let jobId: number | null = "jobId" in source ? source.jobId : null;
+      if (jobId) followedJobsRef.current.add(jobId);
+      let lastEventId = "";
+      let finished = false;
+
+      const handleEvent = (event: BuilderEvent, eventId: string) => {
+        if (eventId) lastEventId = eventId;
+        switch (event.event) {
+          case "job":
+            jobId = event.data.jobId;
+            followedJobsRef.current.add(event.data.jobId);
+            break;
+          case "phase":
+            isBuildingPhase = true;
+            setBuildMode(event.data.phase);
+            setIsBuildingApp(true);
+            setPendingSend(false);
+            break;
+          case "content":
+            fullResponse += event.data.text;
+            if (!isBuildingPhase) {
+              setStreamingContent(fullResponse);
+            }
+            setPendingSend(false);
+            break;
+          case "plan":
+            break;
+          case "app_created":
+            wasAppCreated = true;
+            setIsBuildingApp(false);
+            queryClient.invalidateQueries({ queryKey: ["/api/apps"] });
+            toast({ title: "App created!", description: "Your app has been built. Check the dashboard to view it." });
+            break;
+          case "app_updated":
+            wasAppCreated = true;
+            setIsBuildingApp(false);
+            queryClient.invalidateQueries({ queryKey: ["/api/apps"] });
+            toast({ title: "App updated!", description: `Revision ${event.data.revision} is live. Open it from the dashboard.` });
+            break;
+          case "error":
+            toast({ title: "Error", description: event.data.message, variant: "destructive" });
+            break;
+          case "done": {
+            finished = true;
+            setStreamingContent("");
+            setIsStreaming(false);
+            setIsBuildingApp(false);
+            queryClient.invalidateQueries({ queryKey: ["/api/conversations", activeConvId] });
+            queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+
+            const usedVoice = sentViaVoiceRef.current;
+            sentViaVoiceRef.current = false;
+
+            if (autoSpeakRef.current && fullResponse && fullResponse.trim() && !wasAppCreated && !isBuildingPhase) {
+              const speakText = fullResponse.length > 500
+                ? fullResponse.slice(0, 500) + "..."
+                : fullResponse;
+              const v = voiceRef.current;
+              if (v) {
+                wasListeningBeforeSpeakRef.current = v.isListening || voiceModeRef.current || usedVoice;
+                v.speak(speakText, language);
+              }
+            }
+
+            if (wasAppCreated && (voiceModeRef.current || usedVoice)) {
+              const v = voiceRef.current;
+              if (v) {
+                wasListeningBeforeSpeakRef.current = true;
+                const langName = language.startsWith("kn") ? "Kannada" : language.startsWith("hi") ? "Hindi" : language.startsWith("en") ? "English" : "";
+                const doneMsg = langName === "Kannada" ? "ನಿಮ್ಮ ಅಪ್ಲಿಕೇಶನ್ ಸಿದ್ಧವಾಗಿದೆ!" : langName === "Hindi" ? "आपका ऐप तैयार है!" : "Your app is ready!";
+                v.speak(doneMsg, language);
+              }
+            }
+            return false;
+          }
+        }
+      };
+
+      const readStream = async (response: Response) => {
+        if (!response.ok) throw new Error("Failed to send message");
+        await readEventStream(response, builderEventSchemas, handleEvent);
+      };
+
+      if ("url" in source) {
+        await readStream(await fetch(source.url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(source.body),
+          signal: controller.signal,
+        }));
+      }
+
+      // Builds run as server-side jobs; keep following (and resuming) until the job reports done
+      let retries = 0;
+      while (jobId && !finished) {
+        const before = lastEventId;
+        try {
+          await readStream(await fetch(`/api/jobs/${jobId}/events`, {
+            headers: lastEventId ? { "Last-Event-ID": lastEventId } : {},
+            signal: controller.signal,
+          }));
+        } catch (error: any) {
+          if (error?.name === "AbortError" || error instanceof EventStreamError) throw error;
+        }
+        if (finished) break;
+        retries = lastEventId !== before ? 0 : retries + 1;
+        if (retries > JOB_MAX_RETRIES) throw new Error("Lost connection to the build");
+        await new Promise((resolve) => setTimeout(resolve, JOB_RETRY_DELAY_MS * Math.max(retries, 1)));
+      }
+    } catch (error: any) {
+      if (error?.name === "AbortError") {
+        setIsStreaming(false);
+        setIsBuildingApp(false);
+        setPendingSend(false);
+        setStreamingContent("");
+        return;
+      }
+      if (error instanceof EventStreamError) console.error("Builder stream:", error.message);
+      toast({ title: "Error", description: error instanceof EventStreamError ? error.message : failureMessage, variant: "destructive" });
+      setIsStreaming(false);
+      setIsBuildingApp(false);
+      setPendingSend(false);
+      setStreamingContent("");
+    }
+  }, [language, toast]);
+
   const sendMessage = useCallback(async (text: string) => {
     if (!text.trim() || isStreaming) return;
     setPendingSend(true);
@@ -128,113 +273,34 @@ export default function Builder({ conversationId, onConversationCreated, onNavig
       }
     );
 
-    try {
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
-      }
-      const controller = new AbortController();
-      abortControllerRef.current = controller;
-
-      const response = await fetch(`/api/conversations/${activeConvId}/messages`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ content: text, language }),
-        signal: controller.signal,
-      });
-
-      if (!response.ok) throw new Error("Failed to send message");
+    await streamResponse(activeConvId!, { url: `/api/conversations/${activeConvId}/messages`, body: { content: text, language } }, "Failed to send message. Please try again.");
+  }, [conversationId, language, isStreaming, onConversationCreated, streamResponse]);
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      let fullResponse = "";
-      let buffer = "";
-      let wasAppCreated = false;
-      let isBuildingPhase = false;
-      let createdAppId: number | null = null;
-
-      if (reader) {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split("\n");
-          buffer = lines.pop() || "";
-
-          for (const line of lines) {
-            if (line.startsWith("data: ")) {
-              try {
-                const data = JSON.parse(line.slice(6));
-                if (data.phase === "building") {
-                  isBuildingPhase = true;
-                  setIsBuildingApp(true);
-                  setPendingSend(false);
-                }
-                if (data.content) {
-                  fullResponse += data.content;
-                  if (!isBuildingPhase) {
-                    setStreamingContent(fullResponse);
-                  }
-                  setPendingSend(false);
-                }
-                if (data.appCreated) {
-                  wasAppCreated = true;
-                  createdAppId = data.appId;
-                  setIsBuildingApp(false);
-                  queryClient.invalidateQueries({ queryKey: ["/api/apps"] });
-                  toast({ title: "App created!", description: "Your app has been built. Check the dashboard to view it." });
-                }
-                if (data.done) {
-                  setStreamingContent("");
-                  setIsStreaming(false);
-                  setIsBuildingApp(false);
-                  queryClient.invalidateQueries({ queryKey: ["/api/conversations", activeConvId] });
-                  queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
-
-                  const usedVoice = sentViaVoiceRef.current;
-                  sentViaVoiceRef.current = false;
-
-                  if (autoSpeakRef.current && fullResponse && fullResponse.trim() && !wasAppCreated && !isBuildingPhase) {
-                    const speakText = fullResponse.length > 500
-                      ? fullResponse.slice(0, 500) + "..."
-                      : fullResponse;
-                    const v = voiceRef.current;
-                    if (v) {
-                      wasListeningBeforeSpeakRef.current = v.isListening || voiceModeRef.current || usedVoice;
-                      v.speak(speakText, language);
-                    }
-                  }
-
-                  if (wasAppCreated && (voiceModeRef.current || usedVoice)) {
-                    const v = voiceRef.current;
-                    if (v) {
-                      wasListeningBeforeSpeakRef.current = true;
-                      const langName = language.startsWith("kn") ? "Kannada" : language.startsWith("hi") ? "Hindi" : language.startsWith("en") ? "English" : "";
-                      const doneMsg = langName === "Kannada" ? "ನಿಮ್ಮ ಅಪ್ಲಿಕೇಶನ್ ಸಿದ್ಧವಾಗಿದೆ!" : langName === "Hindi" ? "आपका ऐप तैयार है!" : "Your app is ready!";
-                      v.speak(doneMsg, language);
-                    }
-                  }
-                }
-              } catch {}
-            }
-          }
-        }
-      }
-    } catch (error: any) {
-      if (error?.name === "AbortError") {
-        setIsStreaming(false);
-        setIsBuildingApp(false);
-        setPendingSend(false);
-        setStreamingContent("");
-        return;
-      }
-      toast({ title: "Error", description: "Failed to send message. Please try again.", variant: "destructive" });
+  const startBuild = useCallback(async () => {
+    if (!conversationId || isStreaming) return;
+    setIsStreaming(true);
+    setIsBuildingApp(false);
+    setStreamingContent("");
+    try {
+      const res = await apiRequest("POST", `/api/conversations/${conversationId}/build`, { language });
+      const { jobId } = await res.json();
+      await streamResponse(conversationId, { jobId }, "Lost connection to the build. Reopen the conversation to check on it.");
+    } catch {
+      toast({ title: "Error", description: "Failed to start the build. Please try again.", variant: "destructive" });
       setIsStreaming(false);
-      setIsBuildingApp(false);
-      setPendingSend(false);
-      setStreamingContent("");
     }
-  }, [conversationId, language, isStreaming, onConversationCreated, toast]);
+  }, [conversationId, language, isStreaming, streamResponse, toast]);
+
+  // A build keeps running on the server when the page closes; pick it back up when the conversation reopens
+  useEffect(() => {
+    const job = conversation?.activeJob;
+    if (!conversationId || !job || isStreaming || followedJobsRef.current.has(job.id)) return;
+    followedJobsRef.current.add(job.id);
+    setIsStreaming(true);
+    setBuildMode("building");
+    setIsBuildingApp(true);
+    streamResponse(conversationId, { jobId: job.id }, "Lost connection to the build. Reopen the conversation to check on it.");
+  }, [conversationId, conversation?.activeJob, isStreaming, streamResponse]);
 
   useEffect(() => {
     sendMessageRef.current = sendMessage;
@@ -251,6 +317,8 @@ export default function Builder({ conversationId, onConversationCreated, onNavig
         abortControllerRef.current.abort();
         abortControllerRef.current = null;
       }
+      // Builds keep running server-side; coming back to a conversation should reattach
+      followedJobsRef.current.clear();
       const v = voiceRef.current;
       if (v) {
         if (v.isListening) v.stopListening();
@@ -337,6 +405,9 @@ export default function Builder({ conversationId, onConversationCreated, onNavig
                 />
               ))
             )}
+            {conversation?.plan && conversation.phase === "planning" && !isStreaming && (
+              <PlanCard conversationId={conversation.id} plan={conversation.plan} onBuild={startBuild} isBuilding={isStreaming} />
+            )}
             {isBuildingApp && (
               <div className="flex gap-3 py-4 px-3">
                 <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center">
@@ -346,8 +417,12 @@ export default function Builder({ conversationId, onConversationCreated, onNavig
                   <div className="flex items-center gap-3">
                     <Loader2 className="w-5 h-5 animate-spin text-primary" />
                     <div>
-                      <p className="text-sm font-medium" data-testid="text-building-app">Building your app...</p>
-                      <p className="text-xs text-muted-foreground">Generating HTML, CSS, and JavaScript</p>
+                      <p className="text-sm font-medium" data-testid="text-building-app">
+                        {buildMode === "editing" ? "Updating your app..." : "Building your app..."}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {buildMode === "editing" ? "Applying your changes to the current version" : "Generating HTML, CSS, and JavaScript"}
+                      </p>
                     </div>
                   </div>
                 </Card>
@@ -400,7 +475,7 @@ export default function Builder({ conversationId, onConversationCreated, onNavig
               value={inputText}
               onChange={(e) => setInputText(e.target.value)}
               onKeyDown={handleKeyDown}
-              placeholder="Describe your app or type a message..."
+              placeholder={conversation?.phase === "completed" ? "Describe a change to your app..." : "Describe your app or type a message..."}
               className="min-h-[44px] max-h-[120px] resize-none text-sm"
               rows={1}
               data-testid="input-message"
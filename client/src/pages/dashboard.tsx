@@ -7,6 +7,7 @@ import { Card } from "@/components/ui/card";
 import { LayoutGrid, Sparkles } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { useAccountUsage } from "@/hooks/use-usage";
 import { useState } from "react";
 import type { GeneratedApp } from "@shared/schema";
 
@@ -21,6 +22,7 @@ export default function Dashboard({ onNewApp }: DashboardProps) {
   const { data: apps, isLoading } = useQuery<GeneratedApp[]>({
     queryKey: ["/api/apps"],
   });
+  const { data: usage } = useAccountUsage();
 
   const deleteMutation = useMutation({
     mutationFn: async (id: number) => {
@@ -28,6 +30,7 @@ export default function Dashboard({ onNewApp }: DashboardProps) {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/apps"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/usage"] });
       toast({ title: "App deleted" });
     },
     onError: () => {
@@ -79,6 +82,8 @@ export default function Dashboard({ onNewApp }: DashboardProps) {
                 app={app}
                 onOpen={setPreviewApp}
                 onDelete={(id) => deleteMutation.mutate(id)}
+                usage={usage?.apps.find((entry) => entry.appId === app.id)}
+                limits={usage?.limits}
               />
             ))}
           </div>
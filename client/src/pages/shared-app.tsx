@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Loader2, Maximize2, Minimize2, ArrowLeft } from "lucide-react";
+import { useAppSandbox } from "@/hooks/use-app-sandbox";
 
 interface SharedAppPageProps {
   shareId: string;
@@ -11,6 +12,7 @@ export default function SharedAppPage({ shareId }: SharedAppPageProps) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [fullscreen, setFullscreen] = useState(false);
+  const sandbox = useAppSandbox();
 
   useEffect(() => {
     fetch(`/api/shared/${shareId}`)
@@ -53,9 +55,10 @@ export default function SharedAppPage({ shareId }: SharedAppPageProps) {
           </Button>
         </div>
         <iframe
+          key={sandbox}
           src={`/api/shared/${shareId}/serve`}
           className="w-full h-full border-0"
-          sandbox="allow-scripts allow-forms allow-modals allow-same-origin allow-popups"
+          sandbox={sandbox}
           allow="camera; microphone; geolocation"
           title={app.title}
           data-testid="iframe-shared-app"
@@ -82,9 +85,10 @@ export default function SharedAppPage({ shareId }: SharedAppPageProps) {
       </header>
       <main className="flex-1">
         <iframe
+          key={sandbox}
           src={`/api/shared/${shareId}/serve`}
           className="w-full h-full border-0"
-          sandbox="allow-scripts allow-forms allow-modals allow-same-origin allow-popups"
+          sandbox={sandbox}
           allow="camera; microphone; geolocation"
           title={app.title}
           data-testid="iframe-shared-app"
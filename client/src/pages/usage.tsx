@@ -0,0 +1,96 @@
+import { Gauge } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatBytes, useAccountUsage, usagePercent } from "@/hooks/use-usage";
+
+function UsageCell({ used, limit, label, testId }: { used: number; limit: number; label: string; testId: string }) {
+  const percent = Math.min(100, Math.round((used / limit) * 100));
+  return (
+    <TableCell data-testid={testId}>
+      <div className="flex flex-col gap-1 min-w-[7rem]">
+        <span className={`text-xs ${percent >= 90 ? "text-destructive" : ""}`}>{label}</span>
+        <Progress value={percent} className="h-1.5" />
+      </div>
+    </TableCell>
+  );
+}
+
+export default function Usage() {
+  const { data: usage, isLoading } = useAccountUsage();
+
+  // Fullest apps first: those are the ones about to refuse writes
+  const apps = usage ? [...usage.apps].sort((a, b) => usagePercent(b, usage.limits) - usagePercent(a, usage.limits)) : [];
+  const totals = apps.reduce(
+    (sum, app) => ({ docs: sum.docs + app.docs, bytes: sum.bytes + app.bytes, files: sum.files + app.files, fileBytes: sum.fileBytes + app.fileBytes }),
+    { docs: 0, bytes: 0, files: 0, fileBytes: 0 },
+  );
+
+  return (
+    <div className="flex flex-col h-full overflow-y-auto" data-testid="usage-page">
+      <div className="p-6 max-w-6xl mx-auto w-full">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="w-10 h-10 rounded-md bg-primary/10 flex items-center justify-center">
+            <Gauge className="w-5 h-5 text-primary" />
+          </div>
+          <div>
+            <h1 className="text-lg font-semibold" data-testid="text-usage-title">Usage</h1>
+            <p className="text-sm text-muted-foreground">
+              What your apps have saved. Each app may keep
+              {usage ? ` ${usage.limits.docs.toLocaleString()} documents (${formatBytes(usage.limits.bytes)}) and ${usage.limits.files.toLocaleString()} files (${formatBytes(usage.limits.fileBytes)})` : " a limited amount of data"};
+              once an app is full, new entries are refused until some are deleted.
+            </p>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <Card className="p-4 space-y-3">
+            {[1, 2, 3].map((i) => <Skeleton key={i} className="h-8 w-full" />)}
+          </Card>
+        ) : usage && apps.length > 0 ? (
+          <Card>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>App</TableHead>
+                  <TableHead>Documents</TableHead>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Files</TableHead>
+                  <TableHead>File storage</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {apps.map((app) => (
+                  <TableRow key={app.appId} data-testid={`row-usage-${app.appId}`}>
+                    <TableCell className="font-medium max-w-[14rem] truncate">{app.title}</TableCell>
+                    <UsageCell used={app.docs} limit={usage.limits.docs} label={app.docs.toLocaleString()} testId={`text-usage-docs-${app.appId}`} />
+                    <UsageCell used={app.bytes} limit={usage.limits.bytes} label={formatBytes(app.bytes)} testId={`text-usage-bytes-${app.appId}`} />
+                    <UsageCell used={app.files} limit={usage.limits.files} label={app.files.toLocaleString()} testId={`text-usage-files-${app.appId}`} />
+                    <UsageCell used={app.fileBytes} limit={usage.limits.fileBytes} label={formatBytes(app.fileBytes)} testId={`text-usage-file-bytes-${app.appId}`} />
+                  </TableRow>
+                ))}
+                <TableRow className="text-muted-foreground" data-testid="row-usage-total">
+                  <TableCell>All apps</TableCell>
+                  <TableCell>{totals.docs.toLocaleString()}</TableCell>
+                  <TableCell>{formatBytes(totals.bytes)}</TableCell>
+                  <TableCell>{totals.files.toLocaleString()}</TableCell>
+                  <TableCell>{formatBytes(totals.fileBytes)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </Card>
+        ) : (
+          <p className="text-sm text-muted-foreground py-20 text-center">No apps yet, so nothing is stored.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { Pool, type PoolClient } from "pg";
+
+// One-off migration for databases created before AppDB documents were stored as jsonb.
+// Run it before `npm run db:push`: push cannot cast the text column and would stop at the
+// unique (app_id, dataset, collection, doc_id) index while duplicate documents exist. Safe to re-run.
+
+async function columnType(client: PoolClient): Promise<string | undefined> {
+  const { rows } = await client.query(
+    `select data_type from information_schema.columns
+     where table_schema = current_schema() and table_name = 'app_storage' and column_name = 'data'`,
+  );
+  return rows[0]?.data_type;
+}
+
+async function migrate() {
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL, ensure the database is provisioned");
+  }
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+  const client = await pool.connect();
+  try {
+    const type = await columnType(client);
+    if (!type) {
+      console.log("app_storage does not exist yet; db:push will create it. Nothing to migrate.");
+      return;
+    }
+
+    await client.query("begin");
+
+    if (type !== "jsonb") {
+      await client.query(`
+        create function pg_temp.app_storage_try_jsonb(value text) returns jsonb language plpgsql as $$
+        begin
+          return value::jsonb;
+        exception when others then
+          return null;
+        end $$`);
+
+      // Rows that never held valid JSON keep their text under _raw instead of failing the cast
+      const invalid = await client.query(
+        `update app_storage set data = json_build_object('_raw', data)::text
+         where pg_temp.app_storage_try_jsonb(data) is null`,
+      );
+      // Documents are spread into objects on read, so arrays and scalars were never usable as-is
+      const wrapped = await client.query(
+        `update app_storage set data = json_build_object('_value', data::json)::text
+         where jsonb_typeof(data::jsonb) <> 'object'`,
+      );
+      await client.query("alter table app_storage alter column data type jsonb using data::jsonb");
+      console.log(`Converted app_storage.data to jsonb (${invalid.rowCount} invalid documents kept as _raw, ${wrapped.rowCount} non-object documents wrapped as _value).`);
+    } else {
+      console.log("app_storage.data is already jsonb.");
+    }
+
+    // Documents written before per-visitor data all belong to the app's own dataset
+    await client.query("alter table app_storage add column if not exists dataset text not null default ''");
+
+    // Without the unique index, PUT could insert the same document twice; keep the newest copy
+    const duplicates = await client.query(`
+      delete from app_storage older using app_storage newer
+      where older.app_id = newer.app_id and older.dataset = newer.dataset and older.collection = newer.collection and older.doc_id = newer.doc_id
+        and (older.updated_at, older.id) < (newer.updated_at, newer.id)`);
+    await client.query("drop index if exists app_storage_doc_idx");
+    await client.query(
+      "create unique index app_storage_doc_idx on app_storage (app_id, dataset, collection, doc_id)",
+    );
+    console.log(`Removed ${duplicates.rowCount} duplicate documents and ensured app_storage_doc_idx.`);
+
+    await client.query("commit");
+    console.log("Done. Run `npm run db:push` to create the remaining tables.");
+  } catch (err) {
+    await client.query("rollback").catch(() => {});
+    throw err;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+migrate().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,92 @@
+import { createHash, randomBytes, randomInt } from "crypto";
+import type { Request } from "express";
+import type { AppAccessRules, AppUser, AppUserProfile } from "@shared/schema";
+
+/**
+ * AppAuth: end users of generated apps. They are stored per app (app_users) and sign in with
+ * email and password or a phone OTP. A sign-in returns a session token the injected SDK keeps
+ * and sends as X-App-Session next to the page's app token.
+ */
+
+export const APP_SESSION_HEADER = "X-App-Session";
+export const APP_SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export const OTP_TTL_MS = 10 * 60 * 1000;
+export const OTP_MAX_ATTEMPTS = 5;
+// A new code can be requested this long after the previous one
+export const OTP_RESEND_INTERVAL_MS = 30 * 1000;
+
+export function hashSecret(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+export function newAppSessionToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+export function readAppSession(req: Request): string | undefined {
+  const header = req.get(APP_SESSION_HEADER);
+  return header ? header.trim() : undefined;
+}
+
+export function newOtpCode(): string {
+  return randomInt(0, 1_000_000).toString().padStart(6, "0");
+}
+
+// Bound to the app and phone so a code hash is useless anywhere else
+export function hashOtpCode(appId: number, phone: string, code: string): string {
+  return hashSecret(`${appId}:${phone}:${code}`);
+}
+
+export function appUserProfile(user: AppUser): AppUserProfile {
+  const { passwordHash: _passwordHash, ...profile } = user;
+  return profile;
+}
+
+/** Production servers need APP_OTP_WEBHOOK_URL to deliver codes; development logs them instead. */
+export function canSendOtpCodes(): boolean {
+  return !!process.env.APP_OTP_WEBHOOK_URL || process.env.NODE_ENV !== "production";
+}
+
+/**
+ * Sends a sign-in code. With APP_OTP_WEBHOOK_URL set, the code is POSTed there as
+ * { phone, code, appId, appTitle } for an SMS or WhatsApp gateway to deliver; otherwise it is
+ * only logged (see canSendOtpCodes).
+ */
+export async function sendOtpCode(phone: string, code: string, app: { id: number; title: string }): Promise<void> {
+  const webhook = process.env.APP_OTP_WEBHOOK_URL;
+  if (!webhook) {
+    console.log(`[APPAUTH] Sign-in code for ${phone} (app ${app.id}): ${code}`);
+    return;
+  }
+  const response = await fetch(webhook, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ phone, code, appId: app.id, appTitle: app.title }),
+  });
+  if (!response.ok) throw new Error(`OTP webhook responded ${response.status}`);
+}
+
+/**
+ * How much of a collection a rule lets the current app user reach: every document, only the
+ * documents they own, or nothing. Collections without a rule are open to anyone.
+ */
+export type AppAccess = "all" | "own" | "none";
+
+export function appAccess(rules: AppAccessRules | undefined, user: AppUserProfile | null): AppAccess {
+  const list = rules === undefined ? ["anyone"] : Array.isArray(rules) ? rules : [rules];
+  let access: AppAccess = "none";
+  for (const rule of list) {
+    if (rule === "anyone") return "all";
+    if (!user) continue;
+    if (rule === "signedIn" || rule === `role:${user.role}`) return "all";
+    if (rule === "owner") access = "own";
+  }
+  return access;
+}
+
+/** Whether the access reaches a document owned by ownerId (creating counts as owning). */
+export function accessAllows(access: AppAccess, user: AppUserProfile | null, ownerId: number | null): boolean {
+  if (access === "all") return true;
+  return access === "own" && !!user && ownerId === user.id;
+}
@@ -0,0 +1,225 @@
+import type { AppBatchOp, AppDataSchema, AppDocPatch, AppDocPrecondition } from "@shared/schema";
+import { validateAppDocument } from "./app-data-schema";
+import { appDocBytes, appDocSizeError, appStorageQuotaError, type AppStorageLimits, type AppStorageUsage } from "./app-quotas";
+
+/**
+ * AppDB.batch and AppDB.patch: writes that commit together or not at all. Storage reads and
+ * locks the documents a batch names, planAppBatch works out every write against them (access
+ * rules, field operators, schema validation, preconditions), and only then is anything written.
+ * Concurrent batches on the same document wait for each other, so increments never get lost.
+ */
+
+export interface AppDocKey {
+  collection: string;
+  docId: string;
+}
+
+export function appDocKey(collection: string, docId: string): string {
+  return JSON.stringify([collection, docId]);
+}
+
+// Kept by AppDB itself next to the data; documents read back carry them
+const BUILT_IN_FIELDS = ["id", "_ownerId", "_createdAt", "_updatedAt", "_version"];
+
+/** Ops as the route hands them over: creates without an id have been given one. */
+export type PlannedAppBatchOp = AppBatchOp & { docId: string };
+
+export interface AppBatchFailure {
+  success: false;
+  /** Position of the failed write in the batch; nothing of the batch was written. */
+  index: number;
+  status: 400 | 403 | 404 | 409 | 413;
+  error: string;
+  fields?: Record<string, string>;
+  /** For conflicts: the document as it is now, or null when gone or not readable. */
+  doc?: Record<string, unknown> | null;
+}
+
+export interface AppBatchWrite {
+  collection: string;
+  docId: string;
+  /** The document's data after the batch; null deletes it. */
+  data: Record<string, unknown> | null;
+  created: boolean;
+  ownerUserId: number | null;
+  /** The last write of the batch on this document */
+  index: number;
+}
+
+export type AppBatchPlan =
+  | { success: true; writes: AppBatchWrite[]; results: (AppDocKey | null)[] }
+  | AppBatchFailure;
+
+export type AppBatchOutcome =
+  | { success: true; writes: AppBatchWrite[]; results: (AppDocKey | null)[]; docs: Map<string, any> }
+  | AppBatchFailure;
+
+export interface AppBatchContext {
+  schema: AppDataSchema | null;
+  /** The signed-in AppAuth user, who owns the documents the batch creates */
+  appUserId: number | null;
+  /** Whether the collection's rules allow the action on a document of this owner (undefined for new documents) */
+  allows: (collection: string, action: "read" | "create" | "update" | "delete", ownerId?: number | null) => boolean;
+}
+
+export type AppDocPatchResult =
+  | { success: true; data: Record<string, unknown> }
+  | { success: false; error: string; fields: Record<string, string> };
+
+// Array elements are JSON values, so they are compared by their JSON text
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Applies AppDB.patch field operators to a document's data; fields not mentioned keep their values. */
+export function applyAppDocPatch(data: Record<string, unknown>, patch: AppDocPatch): AppDocPatchResult {
+  const result = { ...data };
+  const fields: Record<string, string> = {};
+  const seen = new Set<string>();
+  const claim = (field: string) => {
+    if (BUILT_IN_FIELDS.includes(field)) fields[field] = "Set by AppDB";
+    else if (seen.has(field)) fields[field] = "Only one operator may change a field";
+    seen.add(field);
+    return !fields[field];
+  };
+
+  for (const [field, value] of Object.entries(patch.set ?? {})) {
+    if (claim(field)) result[field] = value;
+  }
+  for (const [field, by] of Object.entries(patch.increment ?? {})) {
+    if (!claim(field)) continue;
+    // A missing field counts from 0
+    const current = result[field] ?? 0;
+    if (typeof current !== "number") fields[field] = "Only numbers can be incremented";
+    else result[field] = current + by;
+  }
+  for (const [field, values] of Object.entries(patch.arrayUnion ?? {})) {
+    if (!claim(field)) continue;
+    const current = result[field] ?? [];
+    if (!Array.isArray(current)) {
+      fields[field] = "Not an array";
+      continue;
+    }
+    const union = [...current];
+    for (const value of values) {
+      if (!union.some((item) => sameValue(item, value))) union.push(value);
+    }
+    result[field] = union;
+  }
+  for (const [field, values] of Object.entries(patch.arrayRemove ?? {})) {
+    if (!claim(field)) continue;
+    const current = result[field] ?? [];
+    if (!Array.isArray(current)) fields[field] = "Not an array";
+    else result[field] = current.filter((item) => !values.some((value) => sameValue(item, value)));
+  }
+  for (const field of patch.unset ?? []) {
+    if (claim(field)) delete result[field];
+  }
+
+  if (Object.keys(fields).length > 0) {
+    return { success: false, error: Object.entries(fields).map(([field, error]) => `${field}: ${error}`).join("; "), fields };
+  }
+  if (seen.size === 0) return { success: false, error: "The patch changes no fields", fields };
+  return { success: true, data: result };
+}
+
+/** A stored document's own fields, without the ones AppDB keeps. */
+export function appDocData(doc: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(doc).filter(([field]) => !BUILT_IN_FIELDS.includes(field)));
+}
+
+function satisfies(doc: Record<string, any> | null, { ifVersion, ifUpdatedAt }: AppDocPrecondition): boolean {
+  if (!doc || !doc._updatedAt) return false;
+  if (ifVersion !== undefined && doc._version !== ifVersion) return false;
+  // Same millisecond precision as the single-document routes
+  return ifUpdatedAt === undefined || new Date(doc._updatedAt).getTime() <= Date.parse(ifUpdatedAt);
+}
+
+/**
+ * Works out what a batch writes, in order: each write sees the documents as the earlier writes
+ * of the batch left them, and preconditions compare against the stored version the client read.
+ * The first write that is not allowed, invalid or out of date fails the whole batch.
+ */
+export function planAppBatch(ops: PlannedAppBatchOp[], current: Map<string, any>, context: AppBatchContext): AppBatchPlan {
+  const docs = new Map<string, Record<string, any> | null>(current);
+  const writes = new Map<string, AppBatchWrite>();
+  const results: (AppDocKey | null)[] = [];
+
+  for (let index = 0; index < ops.length; index++) {
+    const op = ops[index];
+    const { collection, docId } = op;
+    const key = appDocKey(collection, docId);
+    const existing = docs.get(key) ?? null;
+    const fail = (status: AppBatchFailure["status"], error: string, extra: Partial<AppBatchFailure> = {}): AppBatchFailure => (
+      { success: false, index, status, error, ...extra }
+    );
+
+    if (op.type !== "create" && (op.ifVersion !== undefined || op.ifUpdatedAt !== undefined) && !satisfies(existing, op)) {
+      const readable = existing && context.allows(collection, "read", existing._ownerId);
+      return fail(409, "Document was changed since it was read", { doc: readable ? existing : null });
+    }
+
+    let data: Record<string, unknown> | null;
+    if (op.type === "delete") {
+      if (existing && !context.allows(collection, "delete", existing._ownerId)) return fail(403, "Forbidden");
+      data = null;
+    } else {
+      let next: Record<string, unknown>;
+      if (op.type === "create") {
+        if (existing) return fail(409, "Document already exists");
+        if (!context.allows(collection, "create")) return fail(403, "Forbidden");
+        next = op.data;
+      } else if (op.type === "update") {
+        // Like PUT: replacing a document needs the update rule, writing a new one counts as creating it
+        const allowed = existing ? context.allows(collection, "update", existing._ownerId) : context.allows(collection, "create");
+        if (!allowed) return fail(403, "Forbidden");
+        next = op.data;
+      } else {
+        if (!existing) return fail(404, "Document not found");
+        if (!context.allows(collection, "update", existing._ownerId)) return fail(403, "Forbidden");
+        const patched = applyAppDocPatch(appDocData(existing), op);
+        if (!patched.success) return fail(400, patched.error, { fields: patched.fields });
+        next = patched.data;
+      }
+      const validation = validateAppDocument(context.schema, collection, next);
+      if (!validation.success) return fail(400, validation.error, { fields: validation.fields });
+      data = validation.data;
+    }
+
+    const stored = current.get(key);
+    const ownerUserId = existing ? existing._ownerId : stored ? stored._ownerId : context.appUserId;
+    if (data === null && !stored) writes.delete(key);
+    else if (data !== null || existing) writes.set(key, { collection, docId, data, created: !stored, ownerUserId, index });
+    // Later writes compare preconditions against what is stored, not against this batch's own changes
+    docs.set(key, data && { ...data, id: docId, _ownerId: ownerUserId, _createdAt: existing?._createdAt, _updatedAt: existing?._updatedAt, _version: existing?._version });
+    results.push(data ? { collection, docId } : null);
+  }
+
+  return { success: true, writes: Array.from(writes.values()), results };
+}
+
+/**
+ * How a planned batch changes the app's storage usage, or the first write that is too large or
+ * takes the app over its quota counting the writes before it; `usage` is the usage before the batch.
+ */
+export function appBatchUsageChange(
+  writes: AppBatchWrite[],
+  current: Map<string, any>,
+  usage: AppStorageUsage,
+  limits: AppStorageLimits,
+): { success: true; change: AppStorageUsage } | AppBatchFailure {
+  const change = { docs: 0, bytes: 0 };
+  for (const write of [...writes].sort((a, b) => a.index - b.index)) {
+    const stored = current.get(appDocKey(write.collection, write.docId));
+    const writeChange = {
+      docs: (write.data ? 1 : 0) - (stored ? 1 : 0),
+      bytes: (write.data ? appDocBytes(write.data) : 0) - (stored ? appDocBytes(appDocData(stored)) : 0),
+    };
+    const before = { docs: usage.docs + change.docs, bytes: usage.bytes + change.bytes };
+    const error = (write.data && appDocSizeError(write.data, limits)) || appStorageQuotaError(before, writeChange, limits);
+    if (error) return { success: false, index: write.index, status: 413, error };
+    change.docs += writeChange.docs;
+    change.bytes += writeChange.bytes;
+  }
+  return { success: true, change };
+}
@@ -0,0 +1,41 @@
+import type { AppDataChange } from "@shared/events";
+
+/** A change as published by the storage routes; ownerId lets followers apply "owner" read rules. */
+export interface PublishedAppDataChange extends AppDataChange {
+  ownerId: number | null;
+}
+
+export type AppDataListener = (change: PublishedAppDataChange) => void;
+
+// Followers per app dataset ("<appId>:<dataset>"). Changes only reach followers on this
+// server process, which is how the platform is deployed today.
+const followers = new Map<string, Set<AppDataListener>>();
+
+function feedKey(appId: number, dataset: string): string {
+  return `${appId}:${dataset}`;
+}
+
+export function publishAppDataChange(appId: number, dataset: string, change: PublishedAppDataChange): void {
+  followers.get(feedKey(appId, dataset))?.forEach((listener) => {
+    try {
+      listener(change);
+    } catch (error) {
+      console.error(`[APPDB] Change listener for app ${appId} failed:`, error);
+    }
+  });
+}
+
+/** Calls listener with every change to the app dataset until the returned function is called. */
+export function followAppData(appId: number, dataset: string, listener: AppDataListener): () => void {
+  const key = feedKey(appId, dataset);
+  let listeners = followers.get(key);
+  if (!listeners) {
+    listeners = new Set();
+    followers.set(key, listeners);
+  }
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) followers.delete(key);
+  };
+}
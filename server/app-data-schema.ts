@@ -0,0 +1,117 @@
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import {
+  appDataSchemaSchema,
+  type AppCollectionDefinition,
+  type AppDataSchema,
+  type AppFieldDefinition,
+} from "@shared/schema";
+
+const SCHEMA_BLOCK_PATTERN = /<script[^>]*\bid=["']appdb-schema["'][^>]*>([\s\S]*?)<\/script>/i;
+
+/** Reads the <script type="application/json" id="appdb-schema"> block of an entry page; null when absent or invalid. */
+export function extractDataSchema(htmlContent: string): AppDataSchema | null {
+  const block = htmlContent.match(SCHEMA_BLOCK_PATTERN);
+  if (!block) return null;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(block[1]);
+  } catch {
+    console.warn("[APPDB] Ignoring data schema block that is not valid JSON");
+    return null;
+  }
+  const parsed = appDataSchemaSchema.safeParse(raw);
+  if (!parsed.success) {
+    console.warn(`[APPDB] Ignoring invalid data schema: ${fromZodError(parsed.error).message}`);
+    return null;
+  }
+  return parsed.data;
+}
+
+function fieldValidator(field: AppFieldDefinition): z.ZodTypeAny {
+  let validator: z.ZodTypeAny;
+  switch (field.type) {
+    case "string": validator = z.string(); break;
+    case "number": validator = z.number(); break;
+    case "boolean": validator = z.boolean(); break;
+    case "date":
+      validator = z.string().refine((value) => !isNaN(Date.parse(value)), "Expected an ISO date string");
+      break;
+    case "enum": validator = z.enum(field.values as [string, ...string[]]); break;
+    case "array": validator = z.array(z.unknown()); break;
+    case "object": validator = z.record(z.unknown()); break;
+  }
+  if (field.default !== undefined) return validator.default(field.default);
+  return field.required ? validator : validator.nullable().optional();
+}
+
+function documentValidator(collection: AppCollectionDefinition) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const [name, field] of Object.entries(collection.fields)) shape[name] = fieldValidator(field);
+  // Fields the schema does not mention are kept as they are
+  return z.object(shape).passthrough();
+}
+
+export type DocumentValidation =
+  | { success: true; data: Record<string, unknown> }
+  | { success: false; error: string; fields: Record<string, string> };
+
+/** Validates a document written to a collection; collections the schema does not declare accept anything. */
+export function validateAppDocument(schema: AppDataSchema | null, collection: string, data: Record<string, unknown>): DocumentValidation {
+  const definition = schema?.collections[collection];
+  if (!definition) return { success: true, data };
+  const parsed = documentValidator(definition).safeParse(data);
+  if (parsed.success) return { success: true, data: parsed.data };
+
+  const fields: Record<string, string> = {};
+  for (const issue of parsed.error.issues) {
+    const name = issue.path.length > 0 ? issue.path.join(".") : "_document";
+    fields[name] ??= issue.message;
+  }
+  return { success: false, error: fromZodError(parsed.error, { prefix: `Invalid "${collection}" document` }).message, fields };
+}
+
+export type DataMigrationStep =
+  | { kind: "renameCollection"; from: string; to: string }
+  | { kind: "renameField"; collection: string; from: string; to: string }
+  | { kind: "fillDefault"; collection: string; field: string; value: string | number | boolean | null };
+
+/**
+ * Steps that carry saved documents from one schema revision to the next: renames declared with
+ * renamedFrom (and undoing them when a restore goes back to the old name), then defaults for
+ * documents that lack a field. Every step only touches documents that still need it.
+ */
+export function planDataMigration(previous: AppDataSchema | null, next: AppDataSchema | null): DataMigrationStep[] {
+  if (!next || JSON.stringify(previous) === JSON.stringify(next)) return [];
+  const steps: DataMigrationStep[] = [];
+
+  for (const [name, collection] of Object.entries(next.collections)) {
+    const before = previous?.collections[name];
+    if (collection.renamedFrom && !next.collections[collection.renamedFrom]) {
+      steps.push({ kind: "renameCollection", from: collection.renamedFrom, to: name });
+    }
+    for (const [oldName, oldCollection] of Object.entries(previous?.collections ?? {})) {
+      if (oldCollection.renamedFrom === name && !next.collections[oldName]) {
+        steps.push({ kind: "renameCollection", from: oldName, to: name });
+      }
+    }
+
+    for (const [field, definition] of Object.entries(collection.fields)) {
+      if (definition.renamedFrom && !collection.fields[definition.renamedFrom]) {
+        steps.push({ kind: "renameField", collection: name, from: definition.renamedFrom, to: field });
+      }
+    }
+    for (const [oldField, oldDefinition] of Object.entries(before?.fields ?? {})) {
+      if (oldDefinition.renamedFrom && collection.fields[oldDefinition.renamedFrom] && !collection.fields[oldField]) {
+        steps.push({ kind: "renameField", collection: name, from: oldField, to: oldDefinition.renamedFrom });
+      }
+    }
+
+    for (const [field, definition] of Object.entries(collection.fields)) {
+      if (definition.default !== undefined) {
+        steps.push({ kind: "fillDefault", collection: name, field, value: definition.default });
+      }
+    }
+  }
+  return steps;
+}
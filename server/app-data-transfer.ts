@@ -0,0 +1,206 @@
+import { parseCsv, toCsv } from "@shared/csv";
+import type { AppDataSchema, AppExportFormat, AppFieldDefinition } from "@shared/schema";
+import { validateAppDocument } from "./app-data-schema";
+
+/**
+ * Moving AppDB data in and out as files: exports of one collection or a whole app as CSV, JSON
+ * or NDJSON, and CSV imports whose columns the owner maps to document fields.
+ */
+
+export const APP_IMPORT_MAX_ROWS = 10_000;
+
+const BUILT_IN_FIELDS = ["_ownerId", "_createdAt", "_updatedAt", "_version"];
+
+export interface ExportedDoc {
+  collection: string;
+  doc: Record<string, unknown>;
+}
+
+export interface AppExport {
+  body: string;
+  contentType: string;
+  extension: string;
+}
+
+// id first, then the declared fields in schema order, any others alphabetically, built-ins last
+function exportColumns(schema: AppDataSchema | null, docs: ExportedDoc[], wholeApp: boolean): string[] {
+  const declared: string[] = [];
+  for (const collection of Array.from(new Set(docs.map((entry) => entry.collection)))) {
+    for (const field of Object.keys(schema?.collections[collection]?.fields ?? {})) {
+      if (!declared.includes(field)) declared.push(field);
+    }
+  }
+  const others = new Set<string>();
+  for (const { doc } of docs) {
+    for (const field of Object.keys(doc)) {
+      if (field !== "id" && !declared.includes(field) && !BUILT_IN_FIELDS.includes(field)) others.add(field);
+    }
+  }
+  return [...(wholeApp ? ["_collection"] : []), "id", ...declared, ...Array.from(others).sort(), ...BUILT_IN_FIELDS];
+}
+
+/** A whole-app export tells collections apart with a _collection column (CSV, NDJSON) or key (JSON). */
+export function exportAppData(format: AppExportFormat, schema: AppDataSchema | null, docs: ExportedDoc[], wholeApp: boolean): AppExport {
+  if (format === "json") {
+    let body: unknown = docs.map((entry) => entry.doc);
+    if (wholeApp) {
+      const grouped: Record<string, unknown[]> = {};
+      for (const { collection, doc } of docs) (grouped[collection] ??= []).push(doc);
+      body = grouped;
+    }
+    return { body: JSON.stringify(body, null, 2), contentType: "application/json; charset=utf-8", extension: "json" };
+  }
+  if (format === "ndjson") {
+    const lines = docs.map(({ collection, doc }) => JSON.stringify(wholeApp ? { _collection: collection, ...doc } : doc));
+    return { body: lines.map((line) => line + "\n").join(""), contentType: "application/x-ndjson; charset=utf-8", extension: "ndjson" };
+  }
+  const records = docs.map(({ collection, doc }) => ({ _collection: collection, ...doc }));
+  // The byte order mark makes Excel read the file as UTF-8
+  const body = "\uFEFF" + toCsv(exportColumns(schema, docs, wholeApp), records);
+  return { body, contentType: "text/csv; charset=utf-8", extension: "csv" };
+}
+
+type CellConversion = { value?: unknown; error?: string };
+
+// dd/mm/yyyy (or with - or .), the way Indian ledgers write dates
+const DAY_FIRST_DATE = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/;
+
+function toIsoDate(cell: string): string | undefined {
+  const dayFirst = cell.match(DAY_FIRST_DATE);
+  if (dayFirst) {
+    const [, day, month, year] = dayFirst;
+    const date = new Date(Date.UTC(parseInt(year), parseInt(month) - 1, parseInt(day)));
+    return date.getUTCDate() === parseInt(day) ? date.toISOString().slice(0, 10) : undefined;
+  }
+  if (/^\d{4}-\d{2}-\d{2}/.test(cell) && !isNaN(Date.parse(cell))) return cell;
+  const time = Date.parse(cell);
+  return isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+function toNumber(cell: string): number | undefined {
+  // Thousands separators, spaces and currency signs are common in spreadsheet exports
+  const cleaned = cell.replace(/[,\s₹$€£]/g, "");
+  return cleaned !== "" && !isNaN(Number(cleaned)) ? Number(cleaned) : undefined;
+}
+
+/** Turns a CSV cell into the field's declared type; undeclared fields keep numbers and booleans that look like them. */
+function convertCell(cell: string, field: AppFieldDefinition | undefined): CellConversion {
+  const text = cell.trim();
+  if (!field) {
+    if (/^-?\d+(\.\d+)?$/.test(text) && !/^-?0\d/.test(text)) return { value: Number(text) };
+    if (text === "true" || text === "false") return { value: text === "true" };
+    return { value: cell };
+  }
+  switch (field.type) {
+    case "number": {
+      const value = toNumber(text);
+      return value === undefined ? { error: "Expected a number" } : { value };
+    }
+    case "boolean": {
+      const lower = text.toLowerCase();
+      if (["true", "yes", "y", "1"].includes(lower)) return { value: true };
+      if (["false", "no", "n", "0"].includes(lower)) return { value: false };
+      return { error: "Expected yes/no or true/false" };
+    }
+    case "date": {
+      const value = toIsoDate(text);
+      return value === undefined ? { error: "Expected a date (dd/mm/yyyy or yyyy-mm-dd)" } : { value };
+    }
+    case "array":
+    case "object": {
+      try {
+        const value = JSON.parse(text);
+        if (field.type === "array" ? Array.isArray(value) : value && typeof value === "object" && !Array.isArray(value)) return { value };
+      } catch {
+        // Reported below
+      }
+      return { error: `Expected a JSON ${field.type}` };
+    }
+    default:
+      return { value: text };
+  }
+}
+
+export interface AppImportRowError {
+  /** 1 is the first row after the header. */
+  row: number;
+  error: string;
+  fields?: Record<string, string>;
+}
+
+export interface AppImportDoc {
+  row: number;
+  /** Set when a column is mapped to "id"; otherwise the import generates one. */
+  docId?: string;
+  data: Record<string, unknown>;
+}
+
+export type AppImportPlan =
+  | { success: true; total: number; docs: AppImportDoc[]; errors: AppImportRowError[] }
+  | { success: false; error: string };
+
+/**
+ * Reads the CSV and turns each row into a document of the collection through the column
+ * mapping, validated like an AppDB write. Rows that fail are reported and left out.
+ */
+export function planAppImport(schema: AppDataSchema | null, collection: string, csv: string, mapping: Record<string, string>): AppImportPlan {
+  const [header, ...rows] = parseCsv(csv);
+  if (!header) return { success: false, error: "The file has no rows" };
+  if (rows.length > APP_IMPORT_MAX_ROWS) return { success: false, error: `Import at most ${APP_IMPORT_MAX_ROWS} rows at a time` };
+
+  const columns = header.map((name) => name.trim());
+  const mapped = Object.entries(mapping).filter(([, field]) => field !== "");
+  const targets = new Set<string>();
+  for (const [column, field] of mapped) {
+    if (!columns.includes(column)) return { success: false, error: `Column "${column}" is not in the file` };
+    if (BUILT_IN_FIELDS.includes(field)) return { success: false, error: `"${field}" is set by AppDB and cannot be imported` };
+    if (targets.has(field)) return { success: false, error: `Two columns are mapped to "${field}"` };
+    targets.add(field);
+  }
+  if (mapped.length === 0) return { success: false, error: "Map at least one column to a field" };
+
+  const fields = schema?.collections[collection]?.fields ?? {};
+  const docs: AppImportDoc[] = [];
+  const errors: AppImportRowError[] = [];
+  const seenIds = new Set<string>();
+
+  rows.forEach((cells, index) => {
+    const row = index + 1;
+    const data: Record<string, unknown> = {};
+    const cellErrors: Record<string, string> = {};
+    let docId: string | undefined;
+
+    for (const [column, field] of mapped) {
+      // Undoes the quote our exports put before formula-like text
+      const cell = (cells[columns.indexOf(column)] ?? "").replace(/^'(?=[=+\-@\t\r])/, "");
+      if (field === "id") {
+        docId = cell.trim() || undefined;
+        continue;
+      }
+      // Empty cells are left out, so defaults and required fields apply
+      if (cell.trim() === "") continue;
+      const converted = convertCell(cell, fields[field]);
+      if (converted.error) cellErrors[field] = `${converted.error} (column "${column}")`;
+      else data[field] = converted.value;
+    }
+
+    if (docId !== undefined) {
+      if (docId.length > 200) cellErrors.id = "Ids can be at most 200 characters";
+      else if (seenIds.has(docId)) cellErrors.id = `Id "${docId}" appears on an earlier row`;
+      seenIds.add(docId);
+    }
+    if (Object.keys(cellErrors).length > 0) {
+      errors.push({ row, error: Object.values(cellErrors).join("; "), fields: cellErrors });
+      return;
+    }
+
+    const validation = validateAppDocument(schema, collection, data);
+    if (!validation.success) {
+      errors.push({ row, error: validation.error, fields: validation.fields });
+      return;
+    }
+    docs.push({ row, docId, data: validation.data });
+  });
+
+  return { success: true, total: rows.length, docs, errors };
+}
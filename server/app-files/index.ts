@@ -0,0 +1,57 @@
+import { LocalDiskFileStore } from "./local-disk";
+import type { FileStore } from "./types";
+
+export type { FileStore } from "./types";
+
+export interface AppFileLimits {
+  /** Largest single upload, in bytes. */
+  maxFileBytes: number;
+  /** Total bytes of files one app may keep. */
+  quotaBytes: number;
+  /** Most files one app may keep. */
+  quotaFiles: number;
+}
+
+const MB = 1024 * 1024;
+
+// Content types apps may upload. Anything a browser would run as a page (HTML, SVG, JS) is left out.
+export const APP_FILE_MIME_TYPES = [
+  "image/jpeg", "image/png", "image/gif", "image/webp",
+  "application/pdf", "text/plain", "text/csv",
+  "audio/mpeg", "audio/mp4", "audio/ogg", "audio/wav", "audio/webm",
+  "video/mp4", "video/webm",
+];
+
+function envNumber(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "");
+  return value > 0 ? value : fallback;
+}
+
+/** APP_FILES_MAX_FILE_MB (default 10), APP_FILES_QUOTA_MB (default 200) and APP_FILES_QUOTA_FILES (default 2000). */
+export function appFileLimits(): AppFileLimits {
+  return {
+    maxFileBytes: envNumber("APP_FILES_MAX_FILE_MB", 10) * MB,
+    quotaBytes: envNumber("APP_FILES_QUOTA_MB", 200) * MB,
+    quotaFiles: envNumber("APP_FILES_QUOTA_FILES", 2000),
+  };
+}
+
+export function appFileKey(appId: number, fileId: string): string {
+  return `${appId}/${fileId}`;
+}
+
+function createFileStore(): FileStore {
+  const kind = process.env.APP_FILES_BACKEND || "local";
+  if (kind !== "local") throw new Error(`Unknown APP_FILES_BACKEND "${kind}"`);
+  const root = process.env.APP_FILES_DIR || "data/app-files";
+  console.log(`[APPFILES] Storing app files in ${root}`);
+  return new LocalDiskFileStore(root);
+}
+
+let store: FileStore | null = null;
+
+/** The configured file store (APP_FILES_BACKEND=local, under APP_FILES_DIR). */
+export function getFileStore(): FileStore {
+  if (!store) store = createFileStore();
+  return store;
+}
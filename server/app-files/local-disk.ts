@@ -0,0 +1,47 @@
+import { createReadStream } from "fs";
+import { mkdir, rm, stat, writeFile } from "fs/promises";
+import { dirname, resolve, sep } from "path";
+import type { Readable } from "stream";
+import type { FileStore } from "./types";
+
+/** Keeps each file at <root>/<key> on the local disk. */
+export class LocalDiskFileStore implements FileStore {
+  readonly name = "local";
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  // Keys come from the server, but never let one point outside the root
+  private path(key: string): string {
+    const path = resolve(this.root, key);
+    if (!path.startsWith(this.root + sep)) throw new Error(`Invalid file key "${key}"`);
+    return path;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const path = this.path(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, data);
+  }
+
+  async get(key: string): Promise<Readable | null> {
+    const path = this.path(key);
+    try {
+      await stat(path);
+    } catch (error: any) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+    return createReadStream(path);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.path(key), { force: true });
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    await rm(this.path(prefix), { recursive: true, force: true });
+  }
+}
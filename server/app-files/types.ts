@@ -0,0 +1,16 @@
+import type { Readable } from "stream";
+
+/**
+ * Where AppFiles keeps file contents; metadata and quotas live in the app_files table.
+ * Keys look like "<appId>/<fileId>" and are generated by the server, never by apps.
+ */
+export interface FileStore {
+  readonly name: string;
+  put(key: string, data: Buffer): Promise<void>;
+  /** A stream of the file's contents, or null when the key does not exist. */
+  get(key: string): Promise<Readable | null>;
+  /** Deleting a key that does not exist is not an error. */
+  delete(key: string): Promise<void>;
+  /** Removes every key under the prefix (e.g. "12/" for all of app 12's files). */
+  deletePrefix(prefix: string): Promise<void>;
+}
@@ -0,0 +1,119 @@
+import express, { type Express, type NextFunction, type Request, type Response, type Router } from "express";
+import { createServer } from "http";
+
+/**
+ * Generated apps are served from their own origin so their code never runs next to the
+ * builder's session cookie. Pick it with APP_HOST (a hostname this server also answers to,
+ * e.g. apps.example.com) or APP_HOST_PORT (a second listener, handy locally). APP_ORIGIN
+ * overrides the public origin used in links when a proxy sits in front of it.
+ * Without either, apps stay on the builder origin and are framed without allow-same-origin.
+ */
+export interface AppHostConfig {
+  host?: string;
+  port?: number;
+  origin?: string;
+}
+
+// The only platform endpoints generated code may call (CSP connect-src)
+export const APP_RUNTIME_API_PATHS = ["/api/app-storage/", "/api/app-ai/", "/api/app-tokens/", "/api/app-auth/", "/api/app-files/"];
+// Served app pages: /run/<launch token>/ for owners and visitors alike
+const APP_PAGE_PATHS = ["/run/"];
+
+export function appHostConfig(): AppHostConfig {
+  const port = parseInt(process.env.APP_HOST_PORT || "");
+  return {
+    host: process.env.APP_HOST || undefined,
+    port: port > 0 ? port : undefined,
+    origin: process.env.APP_ORIGIN?.replace(/\/+$/, "") || undefined,
+  };
+}
+
+export function isAppHostIsolated(): boolean {
+  const { host, port } = appHostConfig();
+  return !!(host || port);
+}
+
+/** Public origin apps are served from, as seen by a browser that sent `req` to the builder; "" means the builder's own. */
+export function appHostOrigin(req: Request): string {
+  const { host, port, origin } = appHostConfig();
+  if (origin) return origin;
+  if (host) return `${req.protocol}://${host}`;
+  if (port) return `${req.protocol}://${req.hostname}:${port}`;
+  return "";
+}
+
+function requestOrigin(req: Request): string {
+  return `${req.protocol}://${req.get("host")}`;
+}
+
+export function appContentSecurityPolicy(origin: string): string {
+  return [
+    "default-src 'self'",
+    "script-src 'self' 'unsafe-inline'",
+    "style-src 'self' 'unsafe-inline'",
+    "img-src 'self' data: blob:",
+    "media-src 'self' data: blob:",
+    "font-src 'self' data:",
+    `connect-src ${APP_RUNTIME_API_PATHS.map((path) => origin + path).join(" ")}`,
+    "object-src 'none'",
+    "base-uri 'self'",
+    "form-action 'none'",
+  ].join("; ");
+}
+
+/**
+ * Headers for everything the app host serves: the CSP, and CORS for the runtime API, which
+ * authenticates with app tokens only (sandboxed frames without allow-same-origin send Origin: null).
+ */
+function appRuntimeHeaders(req: Request, res: Response, next: NextFunction) {
+  res.setHeader("Content-Security-Policy", appContentSecurityPolicy(requestOrigin(req)));
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  res.setHeader("Referrer-Policy", "no-referrer");
+  if (req.path.startsWith("/api/")) {
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Headers", "Authorization, Content-Type, X-App-Session");
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, PUT, PATCH, DELETE");
+    res.setHeader("Access-Control-Expose-Headers", "X-Next-Cursor");
+    if (req.method === "OPTIONS") return res.status(204).end();
+  }
+  next();
+}
+
+function notFound(_req: Request, res: Response) {
+  res.status(404).send("Not found");
+}
+
+/**
+ * Mounts the app runtime (served pages plus the endpoints they call) on the app origin:
+ * a second listener for APP_HOST_PORT, requests for APP_HOST on the main server, or the
+ * main server itself when no separate origin is configured. Call before other routes.
+ */
+export function mountAppHost(app: Express, runtime: Router): void {
+  const { host, port } = appHostConfig();
+
+  if (port) {
+    const hostApp = express();
+    hostApp.set("trust proxy", 1);
+    hostApp.use(express.json({ limit: "20mb" }));
+    hostApp.use(appRuntimeHeaders, runtime, notFound);
+    createServer(hostApp).listen({ port, host: "0.0.0.0" }, () => {
+      console.log(`[APP-HOST] Serving generated apps on port ${port}`);
+    });
+  }
+
+  if (host) {
+    // Nothing but the runtime is reachable on the app hostname
+    const hostRouter = express.Router();
+    hostRouter.use(appRuntimeHeaders, runtime, notFound);
+    app.use((req, res, next) => (req.hostname === host ? hostRouter(req, res, next) : next()));
+    console.log(`[APP-HOST] Serving generated apps for host ${host}`);
+  }
+
+  if (!host && !port) {
+    const runtimePaths = [...APP_PAGE_PATHS, ...APP_RUNTIME_API_PATHS];
+    app.use((req, res, next) => {
+      if (!runtimePaths.some((path) => req.path.startsWith(path))) return next();
+      appRuntimeHeaders(req, res, () => runtime(req, res, next));
+    });
+  }
+}
@@ -0,0 +1,223 @@
+import { sql, type SQL } from "drizzle-orm";
+import { appStorage, type AppAggregate, type AppAggregateMetric, type AppQuery, type AppQueryOperators, type AppStorageIndex } from "@shared/schema";
+
+type QueryValue = string | number | boolean | null;
+
+const documentExpr = sql`${appStorage.data}`;
+
+const BUILT_IN_FIELDS = new Map<string, SQL>([
+  ["id", sql`to_jsonb(${appStorage.docId})`],
+  ["_ownerId", sql`to_jsonb(${appStorage.ownerUserId})`],
+  ["_createdAt", sql`to_jsonb(${appStorage.createdAt})`],
+  ["_updatedAt", sql`to_jsonb(${appStorage.updatedAt})`],
+  ["_version", sql`to_jsonb(${appStorage.version})`],
+]);
+
+// Field names are validated against appQueryFieldSchema, so the path needs no escaping
+function fieldPath(field: string): string {
+  return `{${field.split(".").join(",")}}`;
+}
+
+/** jsonb value of a (dotted) document field, or of a built-in field. */
+function fieldExpr(field: string): SQL {
+  return BUILT_IN_FIELDS.get(field) ?? sql`${documentExpr} #> ${fieldPath(field)}::text[]`;
+}
+
+function jsonValue(value: QueryValue): SQL {
+  return sql`${JSON.stringify(value)}::jsonb`;
+}
+
+function equals(expr: SQL, value: QueryValue): SQL {
+  if (value === null) return sql`coalesce(${expr}, 'null'::jsonb) = 'null'::jsonb`;
+  return sql`${expr} = ${jsonValue(value)}`;
+}
+
+// jsonb orders mixed types by type (so every string sorts below every number); only compare like with like
+function compare(expr: SQL, operator: "<" | "<=" | ">" | ">=", value: QueryValue): SQL {
+  return sql`(jsonb_typeof(${expr}) = jsonb_typeof(${jsonValue(value)}) and ${expr} ${sql.raw(operator)} ${jsonValue(value)})`;
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+// Arrays contain an element; strings contain a substring (case-insensitive)
+function contains(expr: SQL, value: QueryValue): SQL {
+  return sql`(case jsonb_typeof(${expr})
+    when 'array' then ${expr} @> ${JSON.stringify([value])}::jsonb
+    when 'string' then (${expr} #>> '{}') ilike ${`%${escapeLike(String(value))}%`}
+    else false end)`;
+}
+
+function operatorConditions(expr: SQL, ops: AppQueryOperators): SQL[] {
+  const conditions: SQL[] = [];
+  if (ops.eq !== undefined) conditions.push(equals(expr, ops.eq));
+  if (ops.ne !== undefined) conditions.push(sql`(${equals(expr, ops.ne)}) is not true`);
+  if (ops.lt !== undefined) conditions.push(compare(expr, "<", ops.lt));
+  if (ops.lte !== undefined) conditions.push(compare(expr, "<=", ops.lte));
+  if (ops.gt !== undefined) conditions.push(compare(expr, ">", ops.gt));
+  if (ops.gte !== undefined) conditions.push(compare(expr, ">=", ops.gte));
+  if (ops.in !== undefined) {
+    conditions.push(ops.in.length === 0 ? sql`false` : sql`${expr} in (${sql.join(ops.in.map(jsonValue), sql`, `)})`);
+  }
+  if (ops.contains !== undefined) conditions.push(contains(expr, ops.contains));
+  return conditions;
+}
+
+/** SQL for a query's where clause, or undefined when it has none. */
+export function appQueryWhere(where: AppQuery["where"]): SQL | undefined {
+  if (!where) return undefined;
+  const conditions = Object.entries(where).flatMap(([field, condition]) =>
+    condition !== null && typeof condition === "object"
+      ? operatorConditions(fieldExpr(field), condition)
+      : [equals(fieldExpr(field), condition)]
+  );
+  return conditions.length > 0 ? sql.join(conditions, sql` and `) : undefined;
+}
+
+function orderList(orderBy: AppQuery["orderBy"]) {
+  return orderBy ? (Array.isArray(orderBy) ? orderBy : [orderBy]) : [];
+}
+
+/** ORDER BY terms; newest first when the query has no orderBy. The row id keeps pages stable. */
+export function appQueryOrder(orderBy: AppQuery["orderBy"]): SQL[] {
+  const orders = orderList(orderBy);
+  if (orders.length === 0) return [sql`${appStorage.createdAt} desc`, sql`${appStorage.id} desc`];
+  return [
+    ...orders.map(({ field, direction }) => sql`${fieldExpr(field)} ${sql.raw(direction === "desc" ? "desc" : "asc")} nulls last`),
+    sql`${appStorage.id} asc`,
+  ];
+}
+
+/**
+ * What a row sorts by under appQueryOrder, as a jsonb array for list cursors: each orderBy value
+ * wrapped in an array (null when the document has none), or the creation time as text (JSON dates
+ * would lose its microseconds), then the row id.
+ */
+export function appQueryPosition(orderBy: AppQuery["orderBy"]): SQL<unknown[]> {
+  const orders = orderList(orderBy);
+  const values = orders.length === 0
+    ? [sql`${appStorage.createdAt}::text`]
+    : orders.map(({ field }) => sql`(case when ${fieldExpr(field)} is null then null else jsonb_build_array(${fieldExpr(field)}) end)`);
+  return sql<unknown[]>`jsonb_build_array(${sql.join([...values, sql`${appStorage.id}`], sql`, `)})`;
+}
+
+/**
+ * Rows that sort after `after` (a position from appQueryPosition, checked by appQuerySchema), so
+ * pages continue where the last one ended however many documents were written in between.
+ */
+export function appQueryAfter(orderBy: AppQuery["orderBy"], after: unknown[]): SQL {
+  const orders = orderList(orderBy);
+  const rowId = Number(after[after.length - 1]);
+  if (orders.length === 0) return sql`(${appStorage.createdAt}, ${appStorage.id}) < (${String(after[0])}::timestamp, ${rowId})`;
+
+  // Equal on the keys before one and later on that one (nulls sort last), or equal on all and a later row id
+  const same: SQL[] = [];
+  const alternatives: SQL[] = [];
+  orders.forEach(({ field, direction }, i) => {
+    const expr = fieldExpr(field);
+    const value = after[i] as [unknown] | null;
+    if (value === null) {
+      same.push(sql`${expr} is null`);
+      return;
+    }
+    const later = sql`(${expr} ${sql.raw(direction === "desc" ? "<" : ">")} ${JSON.stringify(value[0])}::jsonb or ${expr} is null)`;
+    alternatives.push(sql.join([...same, later], sql` and `));
+    same.push(sql`${expr} = ${JSON.stringify(value[0])}::jsonb`);
+  });
+  alternatives.push(sql.join([...same, sql`${appStorage.id} > ${rowId}`], sql` and `));
+  return sql`(${sql.join(alternatives.map((alternative) => sql`(${alternative})`), sql` or `)})`;
+}
+
+/** The document, or only the selected fields of it, as a jsonb object. */
+export function appQueryDocument(select: AppQuery["select"]): SQL<Record<string, unknown>> {
+  if (!select || select.length === 0) return sql<Record<string, unknown>>`${documentExpr}`;
+  return sql<Record<string, unknown>>`jsonb_build_object(${sql.join(select.map((field) => sql`${field}::text, ${fieldExpr(field)}`), sql`, `)})`;
+}
+
+// Numbers only; other values are left out of sums, averages and min/max
+function numberExpr(field: string): SQL {
+  const expr = fieldExpr(field);
+  return sql`(case when jsonb_typeof(${expr}) = 'number' then (${expr} #>> '{}')::numeric end)`;
+}
+
+function metricExpr(metric: AppAggregateMetric): SQL {
+  if (metric === "count") return sql`to_jsonb(count(*))`;
+  if ("sum" in metric) return sql`to_jsonb(coalesce(sum(${numberExpr(metric.sum)}), 0))`;
+  if ("avg" in metric) return sql`to_jsonb(avg(${numberExpr(metric.avg)}))`;
+  // min and max compare numbers, or text (ISO dates) for fields that hold no numbers
+  const [fn, field] = "min" in metric ? [sql.raw("min"), metric.min] : [sql.raw("max"), metric.max];
+  const text = sql`(case when jsonb_typeof(${fieldExpr(field)}) = 'string' then ${fieldExpr(field)} #>> '{}' end)`;
+  return sql`coalesce(to_jsonb(${fn}(${numberExpr(field)})), to_jsonb(${fn}(${text})))`;
+}
+
+// yyyy-mm-dd of the day, week (from Monday) or month a date field falls in. Plain dates count as
+// written; timestamps (ISO strings, _createdAt) in the requested time zone; anything else is null.
+// Casts raise errors on values like "2024-02-30" or "25:00", so every value is checked first, in
+// nested CASEs: unlike AND, those are evaluated in order.
+function dateBucketExpr({ field, unit, timezone }: NonNullable<AppAggregate["dateBucket"]>): SQL {
+  const text = sql`(${fieldExpr(field)} #>> '{}')`;
+  const date = "[1-9]\\d{3}-(0[1-9]|1[0-2])-(0[1-9]|[12]\\d|3[01])";
+  const time = "[T ]([01]\\d|2[0-3]):[0-5]\\d(:[0-5]\\d(\\.\\d{1,6})?)?(Z|[+-](0\\d|1[0-5])(:?[0-5]\\d)?)?";
+  // The day exists in its month (the pattern already allows only 01-31)
+  const dayExists = sql`substr(${text}, 9, 2)::int <= extract(day from make_date(substr(${text}, 1, 4)::int, substr(${text}, 6, 2)::int, 1) + interval '1 month' - interval '1 day')`;
+  const day = sql`(case
+    when ${text} ~ ${`^${date}(${time})?$`} then (case
+      when not (${dayExists}) then null
+      when length(${text}) = 10 then ${text}::date
+      else (${text}::timestamptz at time zone ${timezone}::text)::date
+    end)
+    end)`;
+  return sql`to_jsonb(to_char(date_trunc(${unit}::text, ${day}::timestamp), 'YYYY-MM-DD'))`;
+}
+
+/**
+ * An AppDB.aggregate over the documents `scope` selects: one jsonb row per group with the group
+ * values and the metrics. Groups are computed in a subquery (aliased back to app_storage so the
+ * metric expressions resolve) because GROUP BY cannot match expressions that carry bind parameters.
+ */
+export function appAggregateStatement(aggregate: AppAggregate, scope: SQL): SQL {
+  const groups = (aggregate.groupBy === undefined ? [] : [aggregate.groupBy].flat()).map((field) => ({ name: field, expr: fieldExpr(field) }));
+  if (aggregate.dateBucket) groups.push({ name: aggregate.dateBucket.field, expr: dateBucketExpr(aggregate.dateBucket) });
+
+  const where = appQueryWhere(aggregate.where);
+  const groupColumns = groups.map(({ expr }, i) => sql`${expr} as ${sql.raw(`g${i}`)}`);
+  const fields = [
+    ...groups.map(({ name }, i) => sql`${name}::text, ${sql.raw(`g${i}`)}`),
+    ...Object.entries(aggregate.metrics).map(([name, metric]) => sql`${name}::text, ${metricExpr(metric)}`),
+  ];
+  // Charts want buckets in time order; without orderBy, groups sort by their values
+  const orders = aggregate.orderBy === undefined ? groups.map(({ name }) => ({ field: name, direction: "asc" })) : [aggregate.orderBy].flat();
+
+  return sql`select row from (
+    select jsonb_build_object(${sql.join(fields, sql`, `)}) as row
+    from (
+      select ${sql.join([...groupColumns, sql`${appStorage}.*`], sql`, `)} from ${appStorage}
+      where ${scope}${where ? sql` and ${where}` : sql``}
+    ) as ${appStorage}
+    ${groups.length > 0 ? sql`group by ${sql.raw(groups.map((_, i) => `g${i}`).join(", "))}` : sql``}
+  ) as aggregated
+  ${orders.length > 0 ? sql`order by ${sql.join(orders.map(({ field, direction }) => sql`row -> ${field}::text ${sql.raw(direction === "desc" ? "desc" : "asc")} nulls last`), sql`, `)}` : sql``}
+  limit ${aggregate.limit ?? 1000}`;
+}
+
+function indexName(index: AppStorageIndex): string {
+  return `app_storage_field_idx_${index.id}`;
+}
+
+/**
+ * DDL for an owner-declared index: a partial index over one app collection on the same
+ * expression fieldExpr() produces, so the planner can use it for where and orderBy.
+ * DDL takes no bind parameters; the field is validated and the collection is quoted here.
+ */
+export function appStorageIndexDdl(index: AppStorageIndex): { create: SQL; drop: SQL } {
+  const collection = index.collection.replace(/'/g, "''");
+  return {
+    create: sql.raw(
+      `create index concurrently if not exists ${indexName(index)} on app_storage ` +
+      `((data #> '${fieldPath(index.field)}'::text[])) ` +
+      `where app_id = ${index.appId} and collection = '${collection}'`,
+    ),
+    drop: sql.raw(`drop index concurrently if exists ${indexName(index)}`),
+  };
+}
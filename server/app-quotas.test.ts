@@ -0,0 +1,28 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { appStorageLimits, takeVisitorWrite } from "./app-quotas";
+
+const limits = { ...appStorageLimits(), visitorWritesPerMinute: 3, ipWritesPerMinute: 5 };
+
+function writes(appId: number, visitor: { id: string; ip: string }, count: number): (number | null)[] {
+  return Array.from({ length: count }, () => takeVisitorWrite(appId, visitor, limits));
+}
+
+test("a visitor is limited per minute", () => {
+  const results = writes(1, { id: "a", ip: "10.0.0.1" }, 4);
+  assert.deepEqual(results.slice(0, 3), [null, null, null]);
+  assert.ok(results[3]! > 0 && results[3]! <= 60);
+});
+
+test("a new session does not reset the limit of its address", () => {
+  // Every request from a fresh session, as when the visitor drops their cookie each time
+  const results = Array.from({ length: 6 }, (_, i) => takeVisitorWrite(2, { id: `session-${i}`, ip: "10.0.0.2" }, limits));
+  assert.deepEqual(results.slice(0, 5), [null, null, null, null, null]);
+  assert.notEqual(results[5], null);
+});
+
+test("other addresses and other apps keep their own limits", () => {
+  writes(3, { id: "a", ip: "10.0.0.3" }, 5);
+  assert.equal(takeVisitorWrite(3, { id: "b", ip: "10.0.0.4" }, limits), null);
+  assert.equal(takeVisitorWrite(4, { id: "a", ip: "10.0.0.3" }, limits), null);
+});
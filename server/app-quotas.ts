@@ -0,0 +1,138 @@
+/**
+ * Limits on what generated apps keep in AppDB: documents and bytes per app, across all of its
+ * datasets (visitors of a shared app, each with their own data or not, count against the app),
+ * the size of one document, and how many writes visitors of a shared app may make per minute (each
+ * visitor, and all visitors from one address, since a visitor who drops their cookie is a new one).
+ * Full storage answers 413, visitors writing too fast 429.
+ */
+
+export interface AppStorageLimits {
+  /** Largest single document, in bytes of JSON. */
+  maxDocBytes: number;
+  /** Most documents one app may keep. */
+  quotaDocs: number;
+  /** Total bytes of documents one app may keep. */
+  quotaBytes: number;
+  /** Write requests per minute from one visitor of a shared app (a batch counts once). */
+  visitorWritesPerMinute: number;
+  /** Write requests per minute from all visitors of a shared app at one IP address. */
+  ipWritesPerMinute: number;
+}
+
+/** What an app keeps, or (as a change) what a write adds; negative for deletes and shrinking documents. */
+export interface AppStorageUsage {
+  docs: number;
+  bytes: number;
+}
+
+const KB = 1024;
+const MB = 1024 * KB;
+
+function envNumber(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "");
+  return value > 0 ? value : fallback;
+}
+
+/**
+ * APPDB_MAX_DOC_KB (default 512), APPDB_QUOTA_DOCS (default 50000), APPDB_QUOTA_MB (default 100),
+ * APPDB_VISITOR_WRITES_PER_MINUTE (default 120) and APPDB_IP_WRITES_PER_MINUTE (default 600).
+ */
+export function appStorageLimits(): AppStorageLimits {
+  return {
+    maxDocBytes: envNumber("APPDB_MAX_DOC_KB", 512) * KB,
+    quotaDocs: envNumber("APPDB_QUOTA_DOCS", 50_000),
+    quotaBytes: envNumber("APPDB_QUOTA_MB", 100) * MB,
+    visitorWritesPerMinute: envNumber("APPDB_VISITOR_WRITES_PER_MINUTE", 120),
+    ipWritesPerMinute: envNumber("APPDB_IP_WRITES_PER_MINUTE", 600),
+  };
+}
+
+/** A document's fields as the app sent them; storage counts jsonb's text form, a few bytes more. */
+export function appDocBytes(data: Record<string, unknown>): number {
+  return Buffer.byteLength(JSON.stringify(data));
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= MB ? `${Math.round(bytes / MB)} MB` : `${Math.round(bytes / KB)} KB`;
+}
+
+export function appDocSizeError(data: Record<string, unknown>, limits: AppStorageLimits): string | null {
+  return appDocBytes(data) > limits.maxDocBytes ? `Documents can be at most ${formatBytes(limits.maxDocBytes)}` : null;
+}
+
+/**
+ * Why a write that changes usage by `change` may not happen, or null. Only growth is refused,
+ * so an app over its quota can still be edited down and cleaned up.
+ */
+export function appStorageQuotaError(usage: AppStorageUsage, change: AppStorageUsage, limits: AppStorageLimits): string | null {
+  if (change.docs > 0 && usage.docs + change.docs > limits.quotaDocs) {
+    return `This app has reached its limit of ${limits.quotaDocs} documents; delete some to add more`;
+  }
+  if (change.bytes > 0 && usage.bytes + change.bytes > limits.quotaBytes) {
+    return `This app's storage is full (${formatBytes(limits.quotaBytes)}); delete some data to save more`;
+  }
+  return null;
+}
+
+const USAGE_TTL_MS = 30 * 1000;
+
+// Measuring reads every document of the app, so it happens at most every USAGE_TTL_MS per app;
+// writes in between adjust the measured usage
+const usageCache = new Map<number, { usage: AppStorageUsage; measuredAt: number }>();
+
+export async function cachedAppStorageUsage(appId: number, measure: () => Promise<AppStorageUsage>): Promise<AppStorageUsage> {
+  const cached = usageCache.get(appId);
+  if (cached && Date.now() - cached.measuredAt < USAGE_TTL_MS) return { ...cached.usage };
+  const usage = await measure();
+  usageCache.set(appId, { usage: { ...usage }, measuredAt: Date.now() });
+  return usage;
+}
+
+/** Adds a write that went through to the cached usage. */
+export function countAppStorageWrite(appId: number, change: AppStorageUsage) {
+  const cached = usageCache.get(appId);
+  if (!cached) return;
+  cached.usage.docs += change.docs;
+  cached.usage.bytes += change.bytes;
+}
+
+/** For writes whose effect on usage is not known (clears, imports): the next check measures again. */
+export function forgetAppStorageUsage(appId: number) {
+  usageCache.delete(appId);
+}
+
+const RATE_WINDOW_MS = 60 * 1000;
+
+// Writes per visitor and per address in the current minute; in memory, like the change feed
+const visitorWindows = new Map<string, { start: number; count: number }>();
+
+function currentWindow(key: string, now: number) {
+  let window = visitorWindows.get(key);
+  if (!window || now - window.start >= RATE_WINDOW_MS) {
+    // Anonymous visitors come and go; forget the ones whose minute is over
+    if (visitorWindows.size >= 10_000) {
+      visitorWindows.forEach((entry, entryKey) => {
+        if (now - entry.start >= RATE_WINDOW_MS) visitorWindows.delete(entryKey);
+      });
+    }
+    window = { start: now, count: 0 };
+    visitorWindows.set(key, window);
+  }
+  return window;
+}
+
+/**
+ * Counts a visitor's write request against both their own limit and their address's; when either
+ * is used up, returns the seconds until its minute is over.
+ */
+export function takeVisitorWrite(appId: number, visitor: { id: string; ip: string }, limits: AppStorageLimits): number | null {
+  const now = Date.now();
+  const windows = [
+    { window: currentWindow(`${appId}:visitor:${visitor.id}`, now), limit: limits.visitorWritesPerMinute },
+    { window: currentWindow(`${appId}:ip:${visitor.ip}`, now), limit: limits.ipWritesPerMinute },
+  ];
+  const full = windows.find(({ window, limit }) => window.count >= limit);
+  if (full) return Math.ceil((full.window.start + RATE_WINDOW_MS - now) / 1000);
+  windows.forEach(({ window }) => window.count++);
+  return null;
+}
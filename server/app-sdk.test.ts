@@ -0,0 +1,79 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import vm from "node:vm";
+import { renderAppHtml } from "./app-sdk";
+import { issueAppToken, renewAppToken, verifyAppToken } from "./app-tokens";
+
+process.env.SESSION_SECRET ??= "test-secret";
+
+const ORIGIN = "https://apps.example.test";
+
+// Runs the injected runtime against just enough of a browser for token renewal: timers wait to be
+// fired by the test, and /api/app-tokens/refresh answers with `refresh()`
+function runPage(html: string, pathname: string, refresh: () => { token: string; expiresIn: number }) {
+  const baseHref = html.match(/<base href="([^"]+)" data-app-base>/)![1];
+  const script = html.match(/<script>([\s\S]*?)<\/script>/)![1];
+  const base = {
+    href: baseHref,
+    getAttribute: () => base.href,
+    setAttribute: (_name: string, value: string) => { base.href = value; },
+  };
+  const location = { pathname, search: "", hash: "" };
+  const timers: (() => void)[] = [];
+  const page: Record<string, any> = {
+    document: { hidden: false, querySelector: () => base, getElementById: () => null },
+    location,
+    history: { state: null, replaceState: (_state: unknown, _title: string, url: string) => { location.pathname = url; } },
+    addEventListener: () => {},
+    setTimeout: (callback: () => void) => { timers.push(callback); },
+    setInterval: () => {},
+    fetch: async (url: string) => {
+      assert.equal(url, "/api/app-tokens/refresh");
+      return { ok: true, json: async () => refresh() };
+    },
+  };
+  page.window = page;
+  vm.runInNewContext(script, page);
+  return {
+    // Where a relative link on the page leads, as the browser resolves it against <base>
+    follow: (link: string) => new URL(link, new URL(base.href, ORIGIN)).pathname,
+    location,
+    renew: async () => {
+      // The first timer queued is the renewal; the rest belong to the runtime's other work
+      timers.shift()!();
+      await new Promise((resolve) => setImmediate(resolve));
+    },
+  };
+}
+
+function tokenOf(pathname: string): string {
+  return pathname.split("/")[2];
+}
+
+test("relative links of a multi-file app keep working after the launch token expires", async () => {
+  process.env.APP_TOKEN_TTL_SECONDS = "1";
+  const launch = issueAppToken(7, "visitor", { visitorId: "v1" });
+  const claims = verifyAppToken(launch.token)!;
+  const html = renderAppHtml('<html><head></head><body><a href="reports.html">Reports</a></body></html>', {
+    appId: 7,
+    token: renewAppToken(claims),
+    baseHref: `/run/${launch.token}/`,
+  });
+
+  const page = runPage(html, `/run/${launch.token}/index.html`, () => {
+    const renewed = renewAppToken(claims);
+    return { token: renewed.token, expiresIn: renewed.expiresAt - Date.now() };
+  });
+  await new Promise((resolve) => setTimeout(resolve, 1100));
+  assert.equal(verifyAppToken(launch.token), null);
+
+  process.env.APP_TOKEN_TTL_SECONDS = "3600";
+  await page.renew();
+
+  const link = page.follow("reports.html");
+  assert.match(link, /^\/run\/[^/]+\/reports\.html$/);
+  assert.equal(verifyAppToken(tokenOf(link))?.appId, 7);
+  // Reloading the page itself uses the renewed token as well
+  assert.equal(tokenOf(page.location.pathname), tokenOf(link));
+  assert.match(page.location.pathname, /\/index\.html$/);
+});
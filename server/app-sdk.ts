@@ -0,0 +1,740 @@
+import type { IssuedAppToken } from "./app-tokens";
+import { APP_SESSION_HEADER } from "./app-auth";
+
+// Renew the page's app token this long before it expires
+const TOKEN_RENEW_MARGIN_MS = 60 * 1000;
+// AppDB.subscribe re-runs a query at most this often while changes stream in
+const SUBSCRIBE_DEBOUNCE_MS = 150;
+// Wait before reconnecting a dropped change feed
+const FEED_RETRY_MS = 3000;
+// Retry queued offline writes this often until the server takes them
+const OUTBOX_RETRY_MS = 10 * 1000;
+// Pull changes into the offline cache this often while the page is visible
+const SYNC_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Runtime injected into every generated app page: the AppDB, AppAI, AppAuth and AppFiles globals
+ * plus a few small helpers the model tends to assume exist. Every platform call
+ * carries the page's app token, which the runtime renews while the page is open,
+ * and the AppAuth session when an app user is signed in.
+ * AppDB keeps an IndexedDB cache per app and dataset so apps keep working offline.
+ */
+export function buildAppHelpersScript(appId: number, language: string, token: IssuedAppToken, dataset = ""): string {
+  return `<script>
+(function(){
+  var APP_ID = ${appId};
+  var APP_LANG = "${language}";
+  var BASE = '/api/app-storage/' + APP_ID;
+  var TOKEN = ${JSON.stringify(token.token)};
+  var CACHE_NAME = ${JSON.stringify(`appdb:${appId}${dataset ? ":" + dataset : ""}`)};
+  // Sandboxed pages without their own origin have no storage; the session then lasts as long as the page
+  var SESSION_KEY = 'appauth:' + APP_ID;
+  var SESSION = (function(){try{return localStorage.getItem(SESSION_KEY);}catch(e){return null;}})();
+  function _uid(){return Date.now().toString(36)+Math.random().toString(36).substr(2,9);}
+  function _headers(json){
+    var h={'Authorization':'Bearer '+TOKEN};
+    if(SESSION)h['${APP_SESSION_HEADER}']=SESSION;
+    if(json)h['Content-Type']='application/json';
+    return h;
+  }
+  function _renewIn(ms){setTimeout(_renew,Math.max(ms-${TOKEN_RENEW_MARGIN_MS},5000));}
+  function _renew(){
+    fetch('/api/app-tokens/refresh',{method:'POST',headers:_headers()})
+      .then(function(r){return r.ok?r.json():null;})
+      .then(function(t){if(t){TOKEN=t.token;_rebase();_renewIn(t.expiresIn);}})
+      .catch(function(){setTimeout(_renew,30000);});
+  }
+  _renewIn(${token.expiresAt - Date.now()});
+  // Multi-file projects resolve relative links against /run/<token>/: keep that (and the page's own
+  // address, for reloads) on the current token, since the launch token expires
+  function _rebase(){
+    var base=document.querySelector('base[data-app-base]');
+    if(!base)return;
+    var from=base.getAttribute('href'),to='/run/'+TOKEN+'/';
+    base.setAttribute('href',to);
+    if(location.pathname.indexOf(from)!==0)return;
+    try{history.replaceState(history.state,'',to+location.pathname.slice(from.length)+location.search+location.hash);}catch(e){}
+  }
+  _rebase();
+  function _fail(r){
+    return r.json().catch(function(){return {};}).then(function(b){
+      var e=new Error(b.error||r.statusText);e.status=r.status;if(b.fields)e.fields=b.fields;if(b.doc!==undefined)e.doc=b.doc;if(b.index!==undefined)e.index=b.index;throw e;
+    });
+  }
+  function _req(method,url,body){
+    var opts={method:method,headers:_headers(true)};
+    if(body)opts.body=JSON.stringify(body);
+    return fetch(url,opts).then(function(r){if(!r.ok)return _fail(r);return r.status===204?null:r.json();});
+  }
+  // Errors from _fail carry the HTTP status; anything else means the server could not be reached
+  function _offline(e){return !e||e.status===undefined;}
+  function _docUrl(collection,docId){return BASE+'/'+encodeURIComponent(collection)+'/'+encodeURIComponent(docId);}
+  function _precondition(options){return options&&options.ifVersion!==undefined?{ifVersion:options.ifVersion}:{};}
+
+  // Field operators: AppDB.patch("stock", id, {qty: AppDB.increment(-2)}) sends {increment: {qty: -2}}
+  function _FieldOp(op,value){this.op=op;this.value=value;}
+  function _patchBody(changes){
+    var body={};
+    Object.keys(changes).forEach(function(f){
+      var v=changes[f];
+      if(!(v instanceof _FieldOp))(body.set=body.set||{})[f]=v;
+      else if(v.op==='unset')(body.unset=body.unset||[]).push(f);
+      else (body[v.op]=body[v.op]||{})[f]=v.value;
+    });
+    return body;
+  }
+  // The same operators applied to a cached document while offline
+  function _applyPatch(doc,body){
+    var out=Object.assign({},doc);
+    function same(a,b){return JSON.stringify(a)===JSON.stringify(b);}
+    Object.keys(body.set||{}).forEach(function(f){out[f]=body.set[f];});
+    Object.keys(body.increment||{}).forEach(function(f){out[f]=(out[f]||0)+body.increment[f];});
+    Object.keys(body.arrayUnion||{}).forEach(function(f){
+      var a=Array.isArray(out[f])?out[f].slice():[];
+      body.arrayUnion[f].forEach(function(v){if(!a.some(function(x){return same(x,v);}))a.push(v);});
+      out[f]=a;
+    });
+    Object.keys(body.arrayRemove||{}).forEach(function(f){
+      out[f]=(Array.isArray(out[f])?out[f]:[]).filter(function(x){
+        return !body.arrayRemove[f].some(function(v){return same(x,v);});
+      });
+    });
+    (body.unset||[]).forEach(function(f){delete out[f];});
+    return out;
+  }
+
+  // Offline cache: every document the page reads or writes is kept in IndexedDB (docs), writes made
+  // without a connection wait in the outbox and replay in order once the server is reachable again,
+  // and _sync pulls in what other clients changed. Pages without IndexedDB simply stay online-only.
+  var _idb=null;
+  function _cache(){
+    if(!_idb)_idb=new Promise(function(resolve){
+      try{
+        var open=indexedDB.open(CACHE_NAME,1);
+        open.onupgradeneeded=function(){
+          var db=open.result;
+          db.createObjectStore('docs',{keyPath:['collection','id']}).createIndex('collection','collection');
+          db.createObjectStore('outbox',{keyPath:'seq',autoIncrement:true});
+          db.createObjectStore('meta');
+        };
+        open.onsuccess=function(){resolve(open.result);};
+        open.onerror=open.onblocked=function(){resolve(null);};
+      }catch(e){resolve(null);}
+    });
+    return _idb;
+  }
+  // Runs fn in one transaction; resolves with the result of the request fn returns, or null without a cache
+  function _store(names,mode,fn){
+    return _cache().then(function(db){
+      if(!db)return null;
+      return new Promise(function(resolve){
+        var tx=db.transaction(names,mode),req=fn(tx);
+        tx.oncomplete=function(){resolve(req?req.result:undefined);};
+        tx.onabort=function(){resolve(null);};
+      });
+    });
+  }
+  function _cacheRow(collection,docId){
+    return _store(['docs'],'readonly',function(tx){return tx.objectStore('docs').get([collection,docId]);});
+  }
+  function _cachePut(collection,docs){
+    return _store(['docs'],'readwrite',function(tx){
+      var s=tx.objectStore('docs');
+      docs.forEach(function(doc){s.put({collection:collection,id:doc.id,doc:doc});});
+    });
+  }
+  function _cacheDelete(collection,docId){
+    return _store(['docs'],'readwrite',function(tx){tx.objectStore('docs').delete([collection,docId]);});
+  }
+  function _cacheClear(collection){
+    return _store(['docs'],'readwrite',function(tx){
+      var s=tx.objectStore('docs');
+      if(!collection){s.clear();return;}
+      s.index('collection').openKeyCursor(IDBKeyRange.only(collection)).onsuccess=function(e){
+        var c=e.target.result;if(c){s.delete(c.primaryKey);c.continue();}
+      };
+    });
+  }
+  function _cacheList(collection){
+    return _store(['docs'],'readonly',function(tx){return tx.objectStore('docs').index('collection').getAll(collection);})
+      .then(function(rows){return rows&&rows.map(function(row){return row.doc;});});
+  }
+  // _meta(key) reads, _meta(key,value) writes, _meta(key,null) forgets
+  function _meta(key,value){
+    return _store(['meta'],value===undefined?'readonly':'readwrite',function(tx){
+      var s=tx.objectStore('meta');
+      return value===undefined?s.get(key):value===null?s.delete(key):s.put(value,key);
+    });
+  }
+
+  // Offline reads answer queries from the cache the way the server would
+  function _field(doc,path){
+    return path.split('.').reduce(function(v,k){return v==null?undefined:v[k];},doc);
+  }
+  function _matches(value,cond){
+    if(value===undefined)value=null;
+    if(cond===null||typeof cond!=='object')return value===cond;
+    return Object.keys(cond).every(function(op){
+      var x=cond[op],same=value!==null&&typeof value===typeof x;
+      switch(op){
+        case 'eq':return value===x;
+        case 'ne':return value!==x;
+        case 'lt':return same&&value<x;
+        case 'lte':return same&&value<=x;
+        case 'gt':return same&&value>x;
+        case 'gte':return same&&value>=x;
+        case 'in':return x.indexOf(value)!==-1;
+        case 'contains':
+          if(Array.isArray(value))return value.indexOf(x)!==-1;
+          return typeof value==='string'&&typeof x==='string'&&value.toLowerCase().indexOf(x.toLowerCase())!==-1;
+      }
+      return false;
+    });
+  }
+  function _query(docs,query){
+    var where=query.where||{};
+    docs=docs.filter(function(doc){
+      return Object.keys(where).every(function(f){return _matches(_field(doc,f),where[f]);});
+    });
+    var orders=query.orderBy?[].concat(query.orderBy):[{field:'_createdAt',direction:'desc'}];
+    docs.sort(function(a,b){
+      for(var i=0;i<orders.length;i++){
+        var x=_field(a,orders[i].field),y=_field(b,orders[i].field);
+        if(x==null&&y==null)continue;
+        if(x==null||y==null)return x==null?1:-1;
+        if(x!==y)return (x<y?-1:1)*(orders[i].direction==='desc'?-1:1);
+      }
+      return 0;
+    });
+    // Cursors name the last document of the previous page; the cache continues after it
+    var offset=0;
+    if(query.cursor){
+      var after=_cursorDoc(query.cursor);
+      offset=docs.length;
+      docs.some(function(doc,i){if(doc.id===after){offset=i+1;return true;}return false;});
+    }
+    var page=docs.slice(offset,query.limit?offset+query.limit:undefined);
+    if(query.select)page=page.map(function(doc){
+      var out={id:doc.id,_ownerId:doc._ownerId,_createdAt:doc._createdAt,_updatedAt:doc._updatedAt,_version:doc._version};
+      query.select.forEach(function(f){out[f]=_field(doc,f);});
+      return out;
+    });
+    page.nextCursor=query.limit&&docs.length>offset+page.length?_cursor(page[page.length-1].id):null;
+    return page;
+  }
+  // The server's cursor format (encodeAppQueryCursor) without the sort values, which it looks up itself
+  function _cursor(docId){
+    var json=JSON.stringify({doc:docId}).replace(/[\\u0080-\\uffff]/g,function(c){return '\\\\u'+('000'+c.charCodeAt(0).toString(16)).slice(-4);});
+    return btoa(json).replace(/\\+/g,'-').replace(/\\//g,'_').replace(/=+$/,'');
+  }
+  function _cursorDoc(cursor){
+    try{return JSON.parse(atob(cursor.replace(/-/g,'+').replace(/_/g,'/'))).doc;}catch(e){return null;}
+  }
+
+  // AppDB.aggregate over cached documents while offline, the way the server computes it
+  function _bucket(value,unit){
+    if(typeof value!=='string'||!/^\\d{4}-\\d{2}-\\d{2}/.test(value))return null;
+    // Plain dates count as written, timestamps in the browser's time zone
+    var d=new Date(value.length===10?value+'T00:00:00':value);
+    if(isNaN(d.getTime()))return null;
+    if(unit==='week')d.setDate(d.getDate()-(d.getDay()+6)%7);
+    if(unit==='month')d.setDate(1);
+    return d.getFullYear()+'-'+('0'+(d.getMonth()+1)).slice(-2)+'-'+('0'+d.getDate()).slice(-2);
+  }
+  function _metric(docs,metric){
+    if(metric==='count')return docs.length;
+    var op=Object.keys(metric)[0],values=docs.map(function(doc){return _field(doc,metric[op]);});
+    var nums=values.filter(function(v){return typeof v==='number';});
+    var total=nums.reduce(function(a,v){return a+v;},0);
+    if(op==='sum')return total;
+    if(op==='avg')return nums.length?total/nums.length:null;
+    var pool=nums.length?nums:values.filter(function(v){return typeof v==='string';});
+    return pool.length?pool.reduce(function(a,v){return (op==='min'?v<a:v>a)?v:a;}):null;
+  }
+  function _aggregate(docs,spec){
+    var groupBy=spec.groupBy?[].concat(spec.groupBy):[],bucket=spec.dateBucket,metrics=spec.metrics||{count:'count'};
+    var fields=groupBy.concat(bucket?[bucket.field]:[]),groups={},keys=[];
+    _query(docs,{where:spec.where}).forEach(function(doc){
+      var row={};
+      groupBy.forEach(function(f){var v=_field(doc,f);row[f]=v===undefined?null:v;});
+      if(bucket)row[bucket.field]=_bucket(_field(doc,bucket.field),bucket.unit);
+      var key=JSON.stringify(row);
+      if(!groups[key]){groups[key]={row:row,docs:[]};keys.push(key);}
+      groups[key].docs.push(doc);
+    });
+    // Without groups there is always one row, even for no documents
+    if(fields.length===0&&keys.length===0){groups['{}']={row:{},docs:[]};keys.push('{}');}
+    var rows=keys.map(function(key){
+      var g=groups[key];
+      Object.keys(metrics).forEach(function(name){g.row[name]=_metric(g.docs,metrics[name]);});
+      return g.row;
+    });
+    // Row keys are whole names like "customer.city", so sort on copies under plain keys
+    var orders=spec.orderBy?[].concat(spec.orderBy):fields.map(function(f){return {field:f};});
+    var sortable=rows.map(function(row){
+      var item={row:row};
+      orders.forEach(function(o,i){item['k'+i]=row[o.field];});
+      return item;
+    });
+    return _query(sortable,{
+      orderBy:orders.map(function(o,i){return {field:'k'+i,direction:o.direction};}),
+      limit:spec.limit||1000
+    }).map(function(item){return item.row;});
+  }
+
+  // Writes made offline: applied to the cache right away and queued with the _updatedAt the change
+  // was based on, so the server can tell when someone else changed the document in the meantime.
+  // Patches are queued without it: increments and array operators combine with other people's writes.
+  function _queueWrite(e,entry){
+    return (entry.docId?_cacheRow(entry.collection,entry.docId):Promise.resolve(null)).then(function(row){
+      var base=row?(row.pending?row.base:row.doc._updatedAt):undefined,prev=row&&row.doc;
+      if(entry.op==='update'||entry.op==='delete')entry.ifUpdatedAt=base;
+      var doc=null;
+      if(entry.op==='create'||entry.op==='update'||(entry.op==='patch'&&prev)){
+        var now=new Date().toISOString();
+        doc=Object.assign({id:entry.docId},entry.op==='patch'?_applyPatch(prev,entry.patch):entry.data,{
+          _ownerId:prev?prev._ownerId:(_user?_user.id:null),
+          _createdAt:prev?prev._createdAt:now,
+          _updatedAt:now,
+          _pending:true
+        });
+      }
+      return _store(['outbox'],'readwrite',function(tx){return tx.objectStore('outbox').add(entry);}).then(function(seq){
+        if(seq==null)throw e;
+        var applied=doc
+          ?_store(['docs'],'readwrite',function(tx){
+            tx.objectStore('docs').put({collection:entry.collection,id:entry.docId,doc:doc,base:base,pending:true});
+          })
+          :entry.op==='clear'?_cacheClear(entry.collection)
+          :entry.op==='delete'?_cacheDelete(entry.collection,entry.docId):Promise.resolve();
+        return applied.then(function(){
+          _onChange({collection:entry.collection,type:entry.op==='patch'?'update':entry.op,docId:entry.docId||null,doc:doc,clientId:null});
+          _scheduleFlush();
+          return doc;
+        });
+      });
+    });
+  }
+  function _write(method,url,body,entry){
+    return _settled().then(function(){return _req(method,url,body);}).then(function(doc){
+      if(doc)_cachePut(entry.collection,[doc]);
+      else if(entry.op==='delete')_cacheDelete(entry.collection,entry.docId);
+      else _cacheClear(entry.collection);
+      return doc;
+    },function(e){
+      if(!_offline(e))throw e;
+      return _queueWrite(e,entry);
+    });
+  }
+
+  var _flushing=null,_flushTimer=null,_syncing=null,_conflictHandler=null;
+  function _settled(){return _flushing?_flushing.then(function(){}):Promise.resolve();}
+  function _scheduleFlush(){clearTimeout(_flushTimer);_flushTimer=setTimeout(_flush,${OUTBOX_RETRY_MS});}
+  function _refetch(entry){
+    return _req('GET',_docUrl(entry.collection,entry.docId)).then(function(doc){
+      return _cachePut(entry.collection,[doc]);
+    },function(e){
+      if(e.status===404)return _cacheDelete(entry.collection,entry.docId);
+      throw e;
+    });
+  }
+  // The server's version wins unless the AppDB.onConflict handler answers 'local'
+  function _resolveConflict(entry,e){
+    var conflict={collection:entry.collection,docId:entry.docId,local:entry.op==='delete'?null:entry.data||entry.patch,remote:e.doc||null};
+    return Promise.resolve(_conflictHandler?_conflictHandler(conflict):'remote').then(function(choice){
+      if(choice==='local')return _replay(Object.assign({},entry,{ifUpdatedAt:undefined,ifVersion:undefined}));
+      var remote=conflict.remote;
+      return (remote?_cachePut(entry.collection,[remote]):_cacheDelete(entry.collection,entry.docId)).then(function(){
+        _onChange({collection:entry.collection,type:remote?'update':'delete',docId:entry.docId,doc:remote,clientId:null});
+      });
+    });
+  }
+  function _replay(entry){
+    if(entry.op==='clear')return _req('DELETE',BASE+'/'+(entry.collection?encodeURIComponent(entry.collection):'_all')+'/_all');
+    if(entry.op==='create'){
+      return _req('POST',BASE+'/'+encodeURIComponent(entry.collection),{docId:entry.docId,data:entry.data}).then(function(doc){
+        return _cachePut(entry.collection,[doc]);
+      },function(e){
+        // Already there: an earlier attempt got through but its answer was lost
+        if(e.status===409)return _refetch(entry);
+        throw e;
+      });
+    }
+    var url=_docUrl(entry.collection,entry.docId),pre=_precondition(entry);
+    function put(doc){return _cachePut(entry.collection,[doc]);}
+    var query=[];
+    if(entry.ifUpdatedAt)query.push('ifUpdatedAt='+encodeURIComponent(entry.ifUpdatedAt));
+    if(pre.ifVersion!==undefined)query.push('ifVersion='+pre.ifVersion);
+    var sent=entry.op==='update'?_req('PUT',url,Object.assign({data:entry.data,ifUpdatedAt:entry.ifUpdatedAt},pre)).then(put)
+      :entry.op==='patch'?_req('PATCH',url,Object.assign({},entry.patch,pre)).then(put)
+      :_req('DELETE',url+(query.length?'?'+query.join('&'):'')).then(function(){
+        return _cacheDelete(entry.collection,entry.docId);
+      });
+    return sent.catch(function(e){
+      if(e.status===409)return _resolveConflict(entry,e);
+      throw e;
+    });
+  }
+  // Replays queued writes in order; resolves true once the outbox is empty, false while still offline
+  function _flush(){
+    if(_flushing)return _flushing;
+    _flushing=_store(['outbox'],'readonly',function(tx){return tx.objectStore('outbox').getAll();}).then(function(entries){
+      entries=entries||[];
+      function done(i){
+        return _store(['outbox'],'readwrite',function(tx){tx.objectStore('outbox').delete(entries[i].seq);}).then(function(){return next(i+1);});
+      }
+      function next(i){
+        if(i>=entries.length)return true;
+        return _replay(entries[i]).then(function(){return done(i);},function(e){
+          // Offline, or too many writes at once (429): try again later
+          if(_offline(e)||e.status===429){_scheduleFlush();return false;}
+          // Refused for good (validation, access rules, full storage): drop it so later writes are not stuck behind it
+          console.error('AppDB: dropped a write made offline to "'+entries[i].collection+'":',e);
+          if(entries[i].docId)_refetch(entries[i]).catch(function(){});
+          return done(i);
+        });
+      }
+      return next(0);
+    }).then(function(empty){_flushing=null;return empty;});
+    return _flushing;
+  }
+  // Flushes the outbox, then pulls every change since the stored cursor into the cache
+  function _sync(){
+    if(_syncing)return _syncing;
+    _syncing=_cache().then(function(db){
+      if(!db)return;
+      return _flush().then(function(empty){
+        if(!empty)return;
+        function page(cursor){
+          return _req('GET',BASE+'/_sync'+(cursor?'?cursor='+encodeURIComponent(cursor):'')).then(function(r){
+            return (r.reset?_cacheClear(null):Promise.resolve()).then(function(){
+              return _store(['docs'],'readwrite',function(tx){
+                var s=tx.objectStore('docs');
+                r.changes.forEach(function(c){
+                  if(c.doc)s.put({collection:c.collection,id:c.id,doc:c.doc});
+                  else s.delete([c.collection,c.id]);
+                });
+              });
+            }).then(function(){return _meta('cursor',r.cursor);}).then(function(){
+              return r.hasMore?page(r.cursor):null;
+            });
+          });
+        }
+        return _meta('cursor').then(page);
+      });
+    }).catch(function(e){if(!_offline(e))console.error('AppDB sync:',e);}).then(function(){_syncing=null;});
+    return _syncing;
+  }
+  // Another app user signing in sees different documents: start the cache over
+  function _resetCache(){
+    return _cacheClear(null).then(function(){return _meta('cursor',null);}).then(_sync);
+  }
+
+  window.AppDB = {
+    appId: APP_ID,
+    list: function(collection,query){
+      var url=BASE+'/'+encodeURIComponent(collection)+(query?'?q='+encodeURIComponent(JSON.stringify(query)):'');
+      return _settled().then(function(){return fetch(url,{headers:_headers()});}).then(function(r){
+        if(!r.ok)return _fail(r);
+        return r.json().then(function(docs){
+          docs.nextCursor=r.headers.get('X-Next-Cursor');
+          if(!query||!query.select)_cachePut(collection,docs);
+          return docs;
+        });
+      }).catch(function(e){
+        if(!_offline(e))throw e;
+        return _cacheList(collection).then(function(docs){
+          if(!docs)throw e;
+          return _query(docs,query||{});
+        });
+      });
+    },
+    get: function(collection,docId){
+      return _settled().then(function(){return _req('GET',_docUrl(collection,docId));}).then(function(doc){
+        _cachePut(collection,[doc]);
+        return doc;
+      },function(e){
+        if(!_offline(e))throw e;
+        return _cacheRow(collection,docId).then(function(row){
+          if(!row)throw e;
+          return row.doc;
+        });
+      });
+    },
+    aggregate: function(collection,spec){
+      spec=Object.assign({},spec);
+      if(spec.dateBucket&&!spec.dateBucket.timezone){
+        try{spec.dateBucket=Object.assign({timezone:Intl.DateTimeFormat().resolvedOptions().timeZone},spec.dateBucket);}catch(e){}
+      }
+      var url=BASE+'/'+encodeURIComponent(collection)+'/_aggregate?q='+encodeURIComponent(JSON.stringify(spec));
+      return _settled().then(function(){return _req('GET',url);}).catch(function(e){
+        if(!_offline(e))throw e;
+        return _cacheList(collection).then(function(docs){
+          if(!docs)throw e;
+          return _aggregate(docs,spec);
+        });
+      });
+    },
+    create: function(collection,data,docId){
+      var d=docId||_uid();
+      return _write('POST',BASE+'/'+encodeURIComponent(collection),{docId:d,data:data},{op:'create',collection:collection,docId:d,data:data});
+    },
+    update: function(collection,docId,data,options){
+      var pre=_precondition(options);
+      return _write('PUT',_docUrl(collection,docId),Object.assign({data:data},pre),Object.assign({op:'update',collection:collection,docId:docId,data:data},pre));
+    },
+    patch: function(collection,docId,changes,options){
+      var body=_patchBody(changes),pre=_precondition(options);
+      return _write('PATCH',_docUrl(collection,docId),Object.assign({},body,pre),Object.assign({op:'patch',collection:collection,docId:docId,patch:body},pre));
+    },
+    remove: function(collection,docId,options){
+      var pre=_precondition(options);
+      var url=_docUrl(collection,docId)+(pre.ifVersion!==undefined?'?ifVersion='+pre.ifVersion:'');
+      return _write('DELETE',url,null,Object.assign({op:'delete',collection:collection,docId:docId},pre));
+    },
+    // All writes commit together or none do; needs a connection (it is not queued offline)
+    batch: function(ops){
+      var body={ops:ops.map(function(op){
+        var type=op.type==='remove'?'delete':op.type;
+        var out=Object.assign({type:type,collection:op.collection,docId:op.id},_precondition(op));
+        if(type==='patch')Object.assign(out,_patchBody(op.data||{}));
+        else if(type!=='delete')out.data=op.data;
+        return out;
+      })};
+      return _settled().then(function(){return _req('POST',BASE+'/_batch',body);}).then(function(r){
+        r.results.forEach(function(doc,i){
+          if(doc)_cachePut(ops[i].collection,[doc]);
+          else _cacheDelete(ops[i].collection,ops[i].id);
+        });
+        return r.results;
+      });
+    },
+    increment: function(by){return new _FieldOp('increment',by===undefined?1:by);},
+    arrayUnion: function(){return new _FieldOp('arrayUnion',[].slice.call(arguments));},
+    arrayRemove: function(){return new _FieldOp('arrayRemove',[].slice.call(arguments));},
+    unset: function(){return new _FieldOp('unset');},
+    clear: function(collection){
+      return _write('DELETE',BASE+'/'+(collection?encodeURIComponent(collection):'_all')+'/_all',null,{op:'clear',collection:collection||null});
+    },
+    onConflict: function(handler){_conflictHandler=handler;},
+    pendingWrites: function(){
+      return _store(['outbox'],'readonly',function(tx){return tx.objectStore('outbox').count();}).then(function(n){return n||0;});
+    },
+    sync: function(){return _sync();},
+    subscribe: function(collection,query,callback){
+      if(typeof query==='function'){callback=query;query=undefined;}
+      var sub={collection:collection,query:query,callback:callback,timer:null};
+      _subs.push(sub);
+      if(!_feed)_openFeed();
+      _refresh(sub,null);
+      return function(){
+        _subs=_subs.filter(function(s){return s!==sub;});
+        clearTimeout(sub.timer);
+        if(_subs.length===0&&_feed){_feed.abort();_feed=null;}
+      };
+    }
+  };
+  // Live queries: one change feed per page; every change to a subscribed collection re-runs its query
+  var _subs=[];
+  var _feed=null;
+  function _refresh(sub,change){
+    clearTimeout(sub.timer);
+    sub.timer=setTimeout(function(){
+      window.AppDB.list(sub.collection,sub.query).then(function(docs){
+        if(_subs.indexOf(sub)!==-1)sub.callback(docs,change);
+      }).catch(function(e){console.error('AppDB.subscribe:',e);});
+    },${SUBSCRIBE_DEBOUNCE_MS});
+  }
+  function _onChange(change){
+    _subs.forEach(function(sub){if(!change.collection||sub.collection===change.collection)_refresh(sub,change);});
+  }
+  function _openFeed(){
+    var ctrl=new AbortController();
+    _feed=ctrl;
+    fetch(BASE+'/_events',{headers:_headers(),signal:ctrl.signal}).then(function(r){
+      if(!r.ok||!r.body)throw new Error('Change feed failed: '+r.status);
+      var reader=r.body.getReader(),decoder=new TextDecoder(),buffer='',name='',data='';
+      function pump(){
+        return reader.read().then(function(chunk){
+          if(chunk.done)throw new Error('Change feed closed');
+          buffer+=decoder.decode(chunk.value,{stream:true});
+          var lines=buffer.split('\\n');
+          buffer=lines.pop();
+          lines.forEach(function(line){
+            line=line.replace(/\\r$/,'');
+            if(line===''){
+              // After a reconnect, changes may have been missed: re-run every query
+              if(name==='ready'){_sync();_subs.forEach(function(sub){_refresh(sub,null);});}
+              if(name==='change')_onChange(JSON.parse(data));
+              name='';data='';
+            } else if(line.indexOf('event:')===0){name=line.slice(6).trim();}
+            else if(line.indexOf('data:')===0){data+=line.slice(5).trim();}
+          });
+          return pump();
+        });
+      }
+      return pump();
+    }).catch(function(){
+      if(_feed!==ctrl||ctrl.signal.aborted)return;
+      _feed=null;
+      setTimeout(function(){if(_subs.length>0&&!_feed)_openFeed();},${FEED_RETRY_MS});
+    });
+  }
+  var FILES = '/api/app-files/' + APP_ID;
+  function _fileUrl(fileId){return FILES+'/'+encodeURIComponent(fileId)+'?token='+encodeURIComponent(TOKEN);}
+  function _withUrl(file){file.url=_fileUrl(file.id);return file;}
+  window.AppFiles = {
+    upload: function(file,name){
+      var form=new FormData();
+      form.append('file',file,name||file.name||'file');
+      if(name)form.append('name',name);
+      return fetch(FILES,{method:'POST',headers:_headers(),body:form}).then(function(r){
+        if(!r.ok)return _fail(r);
+        return r.json().then(_withUrl);
+      });
+    },
+    list: function(){return _req('GET',FILES).then(function(files){return files.map(_withUrl);});},
+    url: _fileUrl,
+    remove: function(fileId){return _req('DELETE',FILES+'/'+encodeURIComponent(fileId));}
+  };
+  var AUTH = '/api/app-auth/' + APP_ID;
+  var _user;
+  var _listeners = [];
+  function _setSession(session,user){
+    if(session!==SESSION)_resetCache();
+    SESSION=session;_user=user;
+    try{if(session)localStorage.setItem(SESSION_KEY,session);else localStorage.removeItem(SESSION_KEY);}catch(e){}
+    _listeners.forEach(function(cb){try{cb(user);}catch(e){console.error(e);}});
+    return user;
+  }
+  function _signedIn(r){return _setSession(r.session,r.user);}
+  window.AppAuth = {
+    signUp: function(email,password,profile){
+      return _req('POST',AUTH+'/sign-up',{email:email,password:password,name:profile&&profile.name}).then(_signedIn);
+    },
+    signIn: function(email,password){return _req('POST',AUTH+'/sign-in',{email:email,password:password}).then(_signedIn);},
+    sendOtp: function(phone){return _req('POST',AUTH+'/otp',{phone:phone});},
+    verifyOtp: function(phone,code,profile){
+      return _req('POST',AUTH+'/otp/verify',{phone:phone,code:code,name:profile&&profile.name}).then(_signedIn);
+    },
+    signOut: function(){
+      var done=function(){_setSession(null,null);};
+      return SESSION?_req('POST',AUTH+'/sign-out').then(done,done):Promise.resolve(done());
+    },
+    currentUser: function(){
+      if(_user!==undefined)return Promise.resolve(_user);
+      if(!SESSION){_user=null;return Promise.resolve(null);}
+      return _req('GET',AUTH+'/me').then(function(r){
+        if(!r.user)return _setSession(null,null);
+        _user=r.user;return _user;
+      });
+    },
+    onChange: function(cb){_listeners.push(cb);}
+  };
+  function _fileToBase64(file){
+    return new Promise(function(resolve,reject){
+      var reader=new FileReader();
+      reader.onload=function(){
+        var dataUrl=reader.result;
+        var base64=dataUrl.split(',')[1];
+        var mediaType=file.type||'image/jpeg';
+        resolve({base64:base64,mediaType:mediaType});
+      };
+      reader.onerror=reject;
+      reader.readAsDataURL(file);
+    });
+  }
+  window.AppAI = {
+    language: APP_LANG,
+    chat: function(opts){
+      return _req('POST','/api/app-ai/chat',{
+        messages: opts.messages,
+        system: opts.system||undefined,
+        appId: APP_ID,
+        language: APP_LANG
+      }).then(function(r){return r.content;});
+    },
+    ask: function(prompt, imageOrFile){
+      if(!imageOrFile){
+        return window.AppAI.chat({messages:[{role:'user',content:prompt}]});
+      }
+      var p;
+      if(imageOrFile instanceof File || imageOrFile instanceof Blob){
+        p=_fileToBase64(imageOrFile);
+      } else if(typeof imageOrFile==='string'){
+        var mediaType='image/jpeg';
+        var b64=imageOrFile;
+        if(imageOrFile.startsWith('data:')){
+          var parts=imageOrFile.split(',');
+          b64=parts[1];
+          var mMatch=parts[0].match(/data:([^;]+)/);
+          if(mMatch)mediaType=mMatch[1];
+        }
+        p=Promise.resolve({base64:b64,mediaType:mediaType});
+      } else {
+        p=Promise.resolve(imageOrFile);
+      }
+      return p.then(function(img){
+        return window.AppAI.chat({messages:[{role:'user',content:[
+          {type:'image',data:img.base64,mediaType:img.mediaType},
+          {type:'text',text:prompt}
+        ]}]});
+      });
+    },
+    analyzeImage: function(file, prompt){
+      return window.AppAI.ask(prompt||'Analyze this image in detail.',file);
+    }
+  };
+  window.addEventListener('online',_sync);
+  setInterval(function(){if(!document.hidden)_sync();},${SYNC_INTERVAL_MS});
+  setTimeout(_sync,0);
+  setTimeout(function(){
+    if(typeof window.showAlert==='undefined'){
+      window.showAlert=function(msg,type){
+        var el=document.getElementById('alertContainer')||document.getElementById('alert');
+        if(!el)return;
+        el.innerHTML='<div style="padding:12px 16px;border-radius:8px;margin-bottom:12px;'+(type==='error'||type==='danger'?'background:#ffebee;color:#c62828;border-left:4px solid #f44336;':'background:#e8f5e9;color:#2e7d32;border-left:4px solid #4caf50;')+'">'+msg+'</div>';
+        if(type!=='error'&&type!=='danger'){setTimeout(function(){if(typeof window.hideAlert==='function')window.hideAlert();else if(el)el.innerHTML='';},3000);}
+      };
+    }
+    if(typeof window.hideAlert==='undefined'){
+      window.hideAlert=function(){
+        var el=document.getElementById('alertContainer')||document.getElementById('alert');
+        if(el)el.innerHTML='';
+      };
+    }
+    if(typeof window.formatDateTime==='undefined'){
+      window.formatDateTime=function(d){
+        if(!(d instanceof Date)||isNaN(d))return '';
+        return d.getDate().toString().padStart(2,'0')+'/'+
+          (d.getMonth()+1).toString().padStart(2,'0')+'/'+
+          d.getFullYear()+' '+
+          d.getHours().toString().padStart(2,'0')+':'+
+          d.getMinutes().toString().padStart(2,'0');
+      };
+    }
+  },0);
+})();
+</script>`;
+}
+
+export interface RenderAppOptions {
+  appId: number;
+  language?: string | null;
+  token: IssuedAppToken;
+  /** Set for multi-file projects so relative asset paths resolve against the file route; the runtime keeps it on the renewed token. */
+  baseHref?: string;
+  /** The dataset the token reaches; pages on different datasets keep separate offline caches. */
+  dataset?: string;
+}
+
+export function renderAppHtml(html: string, { appId, language, token, baseHref, dataset }: RenderAppOptions): string {
+  const injected = (baseHref ? `<base href="${baseHref}" data-app-base>` : "") + buildAppHelpersScript(appId, language || "en-US", token, dataset);
+  if (html.includes("<head>")) {
+    return html.replace("<head>", "<head>" + injected);
+  }
+  if (html.includes("<html")) {
+    return html.replace(/<html[^>]*>/, "$&" + injected);
+  }
+  return injected + html;
+}
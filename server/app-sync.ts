@@ -0,0 +1,24 @@
+/**
+ * Offline AppDB clients catch up through GET /api/app-storage/:appId/_sync. The cursor they
+ * keep is opaque to them: "s<rowId>.<changeId>" while a snapshot of the dataset is being paged
+ * through, then "c<changeId>", a position in app_storage_changes.
+ */
+export type AppSyncCursor =
+  | { kind: "snapshot"; afterRowId: number; changeId: number }
+  | { kind: "changes"; changeId: number };
+
+export const APP_SYNC_PAGE_SIZE = 500;
+
+const CURSOR_PATTERN = /^(?:s(\d{1,15})\.(\d{1,15})|c(\d{1,15}))$/;
+
+export function encodeAppSyncCursor(cursor: AppSyncCursor): string {
+  return cursor.kind === "snapshot" ? `s${cursor.afterRowId}.${cursor.changeId}` : `c${cursor.changeId}`;
+}
+
+/** The cursor, or null when the string is not one this server handed out. */
+export function parseAppSyncCursor(value: string): AppSyncCursor | null {
+  const match = value.match(CURSOR_PATTERN);
+  if (!match) return null;
+  if (match[3] !== undefined) return { kind: "changes", changeId: parseInt(match[3]) };
+  return { kind: "snapshot", afterRowId: parseInt(match[1]), changeId: parseInt(match[2]) };
+}
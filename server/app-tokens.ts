@@ -0,0 +1,127 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+
+/**
+ * What a served app page may do with its app's data:
+ * owner preview (read/write), shared visitor (as the app's data mode allows) or read-only (old revisions).
+ * Tokens also serve as launch URLs on the app origin (/run/<token>/).
+ */
+export type AppTokenMode = "owner" | "visitor" | "readonly";
+
+export interface AppTokenClaims {
+  appId: number;
+  mode: AppTokenMode;
+  /** Set when the token opens an older revision of the app. */
+  revision?: number;
+  /** Identifies the visitor whose data a visitor token reaches when the app keeps data per visitor. */
+  visitorId?: string;
+  /** Identifies the page (e.g. one builder preview) so AppDB change feeds can tell its own writes apart. */
+  clientId?: string;
+  /** Expiry, in milliseconds since the epoch. */
+  exp: number;
+}
+
+export interface IssuedAppToken {
+  token: string;
+  expiresAt: number;
+}
+
+const DEFAULT_TTL_SECONDS = 60 * 60;
+const MODES: AppTokenMode[] = ["owner", "visitor", "readonly"];
+
+/** Lifetime of app tokens (APP_TOKEN_TTL_SECONDS, default one hour); the SDK renews them while the page is open. */
+export function appTokenTtlSeconds(): number {
+  const ttl = parseInt(process.env.APP_TOKEN_TTL_SECONDS || "");
+  return ttl > 0 ? ttl : DEFAULT_TTL_SECONDS;
+}
+
+function signingSecret(): string {
+  const secret = process.env.APP_TOKEN_SECRET || process.env.SESSION_SECRET;
+  if (!secret) throw new Error("APP_TOKEN_SECRET or SESSION_SECRET must be set to sign app tokens");
+  return secret;
+}
+
+function sign(payload: string): Buffer {
+  return createHmac("sha256", signingSecret()).update(payload).digest();
+}
+
+export function issueAppToken(
+  appId: number,
+  mode: AppTokenMode,
+  options: { revision?: number; visitorId?: string; clientId?: string } = {},
+): IssuedAppToken {
+  const claims: AppTokenClaims = { appId, mode, ...options, exp: Date.now() + appTokenTtlSeconds() * 1000 };
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  return { token: `${payload}.${sign(payload).toString("base64url")}`, expiresAt: claims.exp };
+}
+
+/** A fresh token with the same claims, for pages that keep running past their token's expiry. */
+export function renewAppToken(claims: AppTokenClaims): IssuedAppToken {
+  const { revision, visitorId, clientId } = claims;
+  return issueAppToken(claims.appId, claims.mode, { revision, visitorId, clientId });
+}
+
+/** The token's claims, or null when it is malformed, forged or expired. */
+export function verifyAppToken(token: string): AppTokenClaims | null {
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0) return null;
+
+  const expected = sign(payload);
+  const given = Buffer.from(signature, "base64url");
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf-8"));
+    if (typeof claims?.appId !== "number" || !MODES.includes(claims.mode) || typeof claims.exp !== "number") return null;
+    if (claims.revision !== undefined && typeof claims.revision !== "number") return null;
+    if (claims.visitorId !== undefined && typeof claims.visitorId !== "string") return null;
+    if (claims.clientId !== undefined && typeof claims.clientId !== "string") return null;
+    return claims.exp > Date.now() ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Which dataset a token reaches under the app's data mode, and whether it may write there.
+ * Owners always work on the app's own dataset; visitors share it, get their own, or only read it.
+ */
+export function appDataScope(dataMode: string, claims: AppTokenClaims): { dataset: string; canWrite: boolean } {
+  if (claims.mode === "readonly") return { dataset: "", canWrite: false };
+  if (claims.mode === "owner") return { dataset: "", canWrite: true };
+  if (dataMode === "per_visitor") {
+    return claims.visitorId ? { dataset: `visitor:${claims.visitorId}`, canWrite: true } : { dataset: "", canWrite: false };
+  }
+  return { dataset: "", canWrite: dataMode !== "read_only" };
+}
+
+/** The Bearer token, or for GETs a ?token= parameter, so <img src> can load AppFiles downloads. */
+export function readAppToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  if (header?.startsWith("Bearer ")) return header.slice("Bearer ".length).trim();
+  if (req.method === "GET" && typeof req.query.token === "string") return req.query.token;
+  return undefined;
+}
+
+/**
+ * Requires a valid app token for the app in req.params.appId (or any app when the route has
+ * no appId) and, for "write", a mode that may write. The claims end up in res.locals.appToken.
+ */
+export function requireAppToken(access: "read" | "write") {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const token = readAppToken(req);
+    if (!token) return res.status(401).json({ error: "App token required" });
+    const claims = verifyAppToken(token);
+    if (!claims) return res.status(401).json({ error: "Invalid or expired app token" });
+
+    const appIdParam = req.params.appId;
+    if (appIdParam !== undefined && parseInt(String(appIdParam)) !== claims.appId) {
+      return res.status(403).json({ error: "Forbidden" });
+    }
+    if (access === "write" && claims.mode === "readonly") {
+      return res.status(403).json({ error: "This app's data is read-only here" });
+    }
+    res.locals.appToken = claims;
+    next();
+  };
+}
@@ -0,0 +1,135 @@
+import { storage } from "./storage";
+import type { BuildJob } from "@shared/schema";
+import type { BuilderEvent } from "@shared/events";
+
+export type EventSink = (event: BuilderEvent) => void;
+
+/** Receives job events; `id` is the output offset to resume from and is absent for status-only events. */
+export type JobListener = (event: BuilderEvent, id?: number) => void;
+
+interface RunningJob {
+  output: string;
+  appId: number | null;
+  error: string | null;
+  listeners: Set<JobListener>;
+}
+
+const PERSIST_INTERVAL_MS = 2000;
+const INTERRUPTED_MESSAGE = "The build was interrupted. Please try again.";
+
+const runningJobs = new Map<number, RunningJob>();
+
+function finalEvents(job: Pick<BuildJob, "status" | "appId" | "error">): BuilderEvent[] {
+  const result: BuilderEvent = job.status === "succeeded" && job.appId
+    ? { event: "app_created", data: { appId: job.appId } }
+    : { event: "error", data: { message: job.error || INTERRUPTED_MESSAGE } };
+  return [result, { event: "done", data: {} }];
+}
+
+/**
+ * Creates a job record and runs `work` detached from the calling request. Content events
+ * are appended to the job's output (persisted every few seconds), app_created/error events
+ * decide the final status, and every event is relayed to whoever is following the job.
+ */
+export async function startBuildJob(
+  data: { conversationId: number; userId: string },
+  work: (send: EventSink) => Promise<void>,
+): Promise<BuildJob> {
+  const job = await storage.createBuildJob({ ...data, status: "running" });
+  const running: RunningJob = { output: "", appId: null, error: null, listeners: new Set() };
+  runningJobs.set(job.id, running);
+
+  let lastPersist = Date.now();
+  let persisting: Promise<unknown> = Promise.resolve();
+
+  const notify = (event: BuilderEvent, id?: number) => {
+    running.listeners.forEach((listener) => listener(event, id));
+  };
+
+  const send: EventSink = (event) => {
+    if (event.event === "content") {
+      running.output += event.data.text;
+      notify(event, running.output.length);
+      if (Date.now() - lastPersist >= PERSIST_INTERVAL_MS) {
+        lastPersist = Date.now();
+        const snapshot = running.output;
+        persisting = persisting
+          .then(() => storage.updateBuildJob(job.id, { output: snapshot, progress: snapshot.length }))
+          .catch((error) => console.error(`[JOB] Failed to save progress for job ${job.id}:`, error));
+      }
+      return;
+    }
+    if (event.event === "app_created") {
+      running.appId = event.data.appId;
+      return;
+    }
+    if (event.event === "error") {
+      running.error = event.data.message;
+      return;
+    }
+    notify(event);
+  };
+
+  (async () => {
+    try {
+      await work(send);
+    } catch (error: any) {
+      console.error(`[JOB] Build job ${job.id} failed:`, error?.message || error);
+      running.error = "Failed to build app";
+      await storage.updateConversation(data.conversationId, { phase: "planning" }).catch(() => {});
+    }
+
+    await persisting;
+    const finished = await storage.updateBuildJob(job.id, {
+      status: running.appId ? "succeeded" : "failed",
+      output: running.output,
+      progress: running.output.length,
+      appId: running.appId,
+      error: running.appId ? null : running.error || "Failed to build app",
+    }).catch((error) => {
+      console.error(`[JOB] Failed to save result for job ${job.id}:`, error);
+      return undefined;
+    });
+
+    runningJobs.delete(job.id);
+    console.log(`[JOB] Build job ${job.id} finished: ${finished?.status ?? "unsaved"} (${running.output.length} chars)`);
+    const events = finalEvents(finished ?? { status: running.appId ? "succeeded" : "failed", appId: running.appId, error: running.error });
+    events.forEach((event) => notify(event, running.output.length));
+  })();
+
+  return job;
+}
+
+/**
+ * Replays a job from output offset `after` and then relays live events until it finishes.
+ * Returns a function that stops following; jobs keep running when every follower leaves.
+ */
+export async function followBuildJob(jobId: number, after: number, listener: JobListener): Promise<() => void> {
+  listener({ event: "phase", data: { phase: "building" } });
+
+  const running = runningJobs.get(jobId);
+  if (running) {
+    if (running.output.length > after) {
+      listener({ event: "content", data: { text: running.output.slice(after) } }, running.output.length);
+    }
+    running.listeners.add(listener);
+    return () => running.listeners.delete(listener);
+  }
+
+  let job = await storage.getBuildJob(jobId);
+  if (!job) throw new Error(`Build job ${jobId} not found`);
+
+  if (job.status === "running") {
+    // Marked running but not in this process: the server restarted mid-build
+    console.warn(`[JOB] Build job ${jobId} was interrupted, marking it failed`);
+    job = (await storage.updateBuildJob(jobId, { status: "failed", error: INTERRUPTED_MESSAGE })) ?? job;
+    await storage.updateConversation(job.conversationId, { phase: "planning" });
+  }
+
+  const { output } = job;
+  if (output.length > after) {
+    listener({ event: "content", data: { text: output.slice(after) } }, output.length);
+  }
+  finalEvents(job).forEach((event) => listener(event, output.length));
+  return () => {};
+}
@@ -0,0 +1,112 @@
+import { storage } from "./storage";
+import { getLlmProvider, phaseConfig, type LlmMessage } from "./llm";
+import type { Conversation, Message } from "@shared/schema";
+
+// Rough but provider-neutral; we only need to stay safely under the budget
+const CHARS_PER_TOKEN = 4;
+const DEFAULT_TOKEN_BUDGET = 24000;
+const FALLBACK_SNIPPET_CHARS = 200;
+// History keeps at least this much room, even when the last message prefix (a large app) takes up the budget
+const MIN_HISTORY_TOKENS = 4000;
+
+const APP_OUTPUT_PATTERN = /<!doctype html|<html[\s>]|<web_app>/i;
+
+const SYSTEM_PROMPT_SUMMARY = `You maintain a running summary of a conversation between a user and an assistant that plans and builds web apps. Merge the summary so far with the new turns into one updated summary.
+
+Keep every decision and requirement the user stated (features, fields, language, colours, who uses the app), what was built or changed, and any open questions. Drop greetings and repetition. Write short plain-text bullet points in English, at most 300 words.`;
+
+interface ContextTurn {
+  id: number;
+  role: "user" | "assistant";
+  content: string;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/** Token budget for the conversation history sent with each request (LLM_CONTEXT_TOKEN_BUDGET). */
+export function contextTokenBudget(): number {
+  const budget = parseInt(process.env.LLM_CONTEXT_TOKEN_BUDGET || "");
+  return budget > 0 ? budget : DEFAULT_TOKEN_BUDGET;
+}
+
+// Earlier builds and edits stored the entire generated app as the assistant message
+function compactContent(message: Message): string {
+  if (message.role !== "assistant" || !APP_OUTPUT_PATTERN.test(message.content)) return message.content;
+  const title = message.content.match(/<title>(.*?)<\/title>/i)?.[1];
+  return `[Generated app${title ? ` "${title}"` : ""}: ${message.content.length} characters of code omitted]`;
+}
+
+async function summarizeTurns(previous: string | null, turns: ContextTurn[]): Promise<string> {
+  const transcript = turns
+    .map((turn) => `${turn.role === "user" ? "User" : "Assistant"}: ${turn.content}`)
+    .join("\n\n");
+  try {
+    const { model, maxTokens } = phaseConfig("summary");
+    const response = await getLlmProvider().chat({
+      model,
+      maxTokens,
+      system: SYSTEM_PROMPT_SUMMARY,
+      messages: [{
+        role: "user",
+        content: `${previous ? `<summary_so_far>\n${previous}\n</summary_so_far>\n\n` : ""}<new_turns>\n${transcript}\n</new_turns>`,
+      }],
+    });
+    if (response.text.trim()) return response.text.trim();
+  } catch (error: any) {
+    console.error("[CONTEXT] Summarising failed, keeping snippets instead:", error?.message || error);
+  }
+  const snippets = turns.map((turn) => `- ${turn.role}: ${turn.content.slice(0, FALLBACK_SNIPPET_CHARS)}`);
+  return [previous, ...snippets].filter(Boolean).join("\n");
+}
+
+/**
+ * Builds the history for a chat request within the token budget. Old app outputs become short
+ * references, and when the history is still too large the oldest turns are folded into the
+ * conversation's running summary (persisted, so each turn is only summarised once).
+ * `lastMessagePrefix` is prepended to the final user message and counted against the budget.
+ */
+export async function buildChatContext(
+  conv: Conversation,
+  messages: Message[],
+  { lastMessagePrefix }: { lastMessagePrefix?: string } = {},
+): Promise<LlmMessage[]> {
+  const budget = Math.max(contextTokenBudget() - estimateTokens(lastMessagePrefix ?? ""), MIN_HISTORY_TOKENS);
+  let summary = conv.summary;
+
+  const pending: ContextTurn[] = messages
+    .filter((m) => conv.summaryThrough == null || m.id > conv.summaryThrough)
+    .map((m) => ({ id: m.id, role: m.role as "user" | "assistant", content: compactContent(m) }));
+  const pendingTokens = () => pending.reduce((total, turn) => total + estimateTokens(turn.content), 0);
+
+  if (estimateTokens(summary ?? "") + pendingTokens() > budget && pending.length > 1) {
+    // Leave room for the rewritten summary; the latest message is always sent verbatim
+    const target = Math.max(budget - phaseConfig("summary").maxTokens, Math.floor(budget / 2));
+    const folded: ContextTurn[] = [];
+    while (pending.length > 1 && pendingTokens() > target) folded.push(pending.shift()!);
+
+    // Nothing new to fold (the summary itself is what is large): summarising again would change nothing
+    if (folded.length > 0) {
+      summary = await summarizeTurns(summary, folded);
+      const summaryThrough = folded[folded.length - 1].id;
+      await storage.updateConversation(conv.id, { summary, summaryThrough });
+      console.log(`[CONTEXT] Folded ${folded.length} turns of conversation ${conv.id} into its summary (through message ${summaryThrough})`);
+    }
+  }
+
+  const result: LlmMessage[] = pending.map(({ role, content }) => ({ role, content }));
+  const last = result[result.length - 1];
+  if (lastMessagePrefix && last?.role === "user") {
+    result[result.length - 1] = { role: "user", content: `${lastMessagePrefix}\n\n${last.content}` };
+  }
+  if (summary) {
+    const note = `<conversation_summary>\n${summary}\n</conversation_summary>`;
+    if (result[0]?.role === "user") {
+      result[0] = { role: "user", content: `${note}\n\n${result[0].content}` };
+    } else {
+      result.unshift({ role: "user", content: note });
+    }
+  }
+  return result;
+}
@@ -0,0 +1,31 @@
+import type { Response } from "express";
+import { formatEvent, HEARTBEAT, HEARTBEAT_INTERVAL_MS, type StreamEvent } from "@shared/events";
+
+export interface EventStream<M> {
+  send(event: StreamEvent<M>, id?: number | string): void;
+  end(): void;
+}
+
+/** Switches res to an SSE response that sends typed events and periodic heartbeat comments. */
+export function openEventStream<M>(res: Response): EventStream<M> {
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+
+  const heartbeat = setInterval(() => {
+    if (!res.writableEnded) res.write(HEARTBEAT);
+  }, HEARTBEAT_INTERVAL_MS);
+  res.on("close", () => clearInterval(heartbeat));
+
+  return {
+    send(event, id) {
+      if (!res.writableEnded) res.write(formatEvent(event, id));
+    },
+    end() {
+      clearInterval(heartbeat);
+      if (!res.writableEnded) res.end();
+    },
+  };
+}
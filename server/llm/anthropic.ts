@@ -0,0 +1,78 @@
+import Anthropic from "@anthropic-ai/sdk";
+import type { LlmMessage, LlmProvider, LlmRequest, LlmResponse } from "./types";
+
+function toAnthropicMessage(message: LlmMessage): Anthropic.MessageParam {
+  if (typeof message.content === "string") {
+    return { role: message.role, content: message.content };
+  }
+  return {
+    role: message.role,
+    content: message.content.map((part): Anthropic.TextBlockParam | Anthropic.ImageBlockParam =>
+      part.type === "text"
+        ? { type: "text", text: part.text }
+        : {
+          type: "image",
+          source: {
+            type: "base64",
+            media_type: part.mediaType as Anthropic.Base64ImageSource["media_type"],
+            data: part.data,
+          },
+        }
+    ),
+  };
+}
+
+function toAnthropicParams(request: LlmRequest): Anthropic.MessageCreateParamsNonStreaming {
+  return {
+    model: request.model,
+    max_tokens: request.maxTokens,
+    ...(request.system ? { system: request.system } : {}),
+    messages: request.messages.map(toAnthropicMessage),
+    ...(request.tools ? {
+      tools: request.tools.map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.inputSchema as Anthropic.Tool.InputSchema,
+      })),
+    } : {}),
+    ...(request.toolChoice ? { tool_choice: { type: "tool" as const, name: request.toolChoice } } : {}),
+  };
+}
+
+function fromAnthropicMessage(message: Anthropic.Message): LlmResponse {
+  return {
+    text: message.content
+      .filter((block): block is Anthropic.TextBlock => block.type === "text")
+      .map((block) => block.text)
+      .join(""),
+    toolCalls: message.content
+      .filter((block): block is Anthropic.ToolUseBlock => block.type === "tool_use")
+      .map((block) => ({ name: block.name, input: block.input })),
+    stopReason: message.stop_reason,
+    usage: { inputTokens: message.usage.input_tokens, outputTokens: message.usage.output_tokens },
+  };
+}
+
+export class AnthropicProvider implements LlmProvider {
+  readonly name = "anthropic";
+  private client: Anthropic;
+
+  constructor(options: { apiKey?: string; baseURL?: string }) {
+    this.client = new Anthropic(options);
+  }
+
+  async chat(request: LlmRequest): Promise<LlmResponse> {
+    const message = await this.client.messages.create(toAnthropicParams(request));
+    return fromAnthropicMessage(message);
+  }
+
+  async stream(request: LlmRequest, onText: (text: string) => void): Promise<LlmResponse> {
+    const stream = this.client.messages.stream(toAnthropicParams(request));
+    for await (const event of stream) {
+      if (event.type === "content_block_delta" && event.delta.type === "text_delta" && event.delta.text) {
+        onText(event.delta.text);
+      }
+    }
+    return fromAnthropicMessage(await stream.finalMessage());
+  }
+}
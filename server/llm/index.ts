@@ -0,0 +1,61 @@
+import { AnthropicProvider } from "./anthropic";
+import { ScriptedProvider } from "./scripted";
+import type { LlmProvider } from "./types";
+
+export type { LlmContentPart, LlmMessage, LlmProvider, LlmRequest, LlmResponse, LlmTool, LlmToolCall } from "./types";
+
+/** The places the platform calls a model; each can use its own model and token limit. */
+export type LlmPhase = "planning" | "build" | "edit" | "intent" | "summary" | "appAi" | "chat";
+
+export interface PhaseConfig {
+  model: string;
+  maxTokens: number;
+}
+
+const DEFAULT_PHASE_CONFIG: Record<LlmPhase, PhaseConfig> = {
+  planning: { model: "claude-sonnet-4-5", maxTokens: 8192 },
+  build: { model: "claude-sonnet-4-5", maxTokens: 16384 },
+  edit: { model: "claude-sonnet-4-5", maxTokens: 16384 },
+  intent: { model: "claude-haiku-4-5", maxTokens: 256 },
+  summary: { model: "claude-haiku-4-5", maxTokens: 1024 },
+  appAi: { model: "claude-sonnet-4-5", maxTokens: 4096 },
+  chat: { model: "claude-sonnet-4-5", maxTokens: 8192 },
+};
+
+function envKey(phase: LlmPhase): string {
+  return phase.replace(/[A-Z]/g, (c) => `_${c}`).toUpperCase();
+}
+
+/** Model and token limit for a phase; override with LLM_<PHASE>_MODEL and LLM_<PHASE>_MAX_TOKENS (e.g. LLM_APP_AI_MODEL). */
+export function phaseConfig(phase: LlmPhase): PhaseConfig {
+  const defaults = DEFAULT_PHASE_CONFIG[phase];
+  const key = envKey(phase);
+  const maxTokens = parseInt(process.env[`LLM_${key}_MAX_TOKENS`] || "");
+  return {
+    model: process.env[`LLM_${key}_MODEL`] || defaults.model,
+    maxTokens: maxTokens > 0 ? maxTokens : defaults.maxTokens,
+  };
+}
+
+function createProvider(): LlmProvider {
+  const kind = process.env.LLM_PROVIDER || "anthropic";
+  if (kind === "scripted") {
+    const fixtures = process.env.LLM_FIXTURES;
+    if (!fixtures) throw new Error("LLM_PROVIDER=scripted requires LLM_FIXTURES to point at a fixture file");
+    console.log(`[LLM] Using scripted provider with fixtures from ${fixtures}`);
+    return ScriptedProvider.fromFile(fixtures);
+  }
+  if (kind !== "anthropic") throw new Error(`Unknown LLM_PROVIDER "${kind}"`);
+  return new AnthropicProvider({
+    apiKey: process.env.AI_INTEGRATIONS_ANTHROPIC_API_KEY,
+    baseURL: process.env.AI_INTEGRATIONS_ANTHROPIC_BASE_URL,
+  });
+}
+
+let provider: LlmProvider | null = null;
+
+/** The configured provider (LLM_PROVIDER=anthropic by default, or scripted). */
+export function getLlmProvider(): LlmProvider {
+  if (!provider) provider = createProvider();
+  return provider;
+}
@@ -0,0 +1,83 @@
+import { readFileSync } from "fs";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import type { LlmProvider, LlmRequest, LlmResponse } from "./types";
+
+const scriptedResponseSchema = z.object({
+  /** Regex tested against the system prompt, offered tool names and last message; omit to replay in order. */
+  match: z.string().optional(),
+  text: z.string().default(""),
+  toolCalls: z.array(z.object({ name: z.string(), input: z.unknown() })).default([]),
+  stopReason: z.string().default("end_turn"),
+});
+
+const fixtureFileSchema = z.object({
+  responses: z.array(scriptedResponseSchema),
+});
+
+type ScriptedResponse = z.infer<typeof scriptedResponseSchema>;
+
+// Streamed replies are cut into chunks this size so the streaming code paths still run
+const STREAM_CHUNK_SIZE = 64;
+
+function describeRequest(request: LlmRequest): string {
+  const last = request.messages[request.messages.length - 1];
+  const lastText = !last ? "" : typeof last.content === "string"
+    ? last.content
+    : last.content.map((part) => (part.type === "text" ? part.text : `[image ${part.mediaType}]`)).join("\n");
+  return [request.system ?? "", ...(request.tools ?? []).map((tool) => `tool:${tool.name}`), lastText].join("\n");
+}
+
+/**
+ * Deterministic provider for offline runs and CI. Replays responses from a fixture file:
+ * entries with a `match` pattern answer every request they match (checked in file order, so an
+ * empty pattern last acts as a catch-all), the rest are used once each, in order, for requests
+ * nothing matched.
+ */
+export class ScriptedProvider implements LlmProvider {
+  readonly name = "scripted";
+  private matchers: Array<{ pattern: RegExp; response: ScriptedResponse }>;
+  private queue: ScriptedResponse[];
+
+  constructor(responses: ScriptedResponse[]) {
+    this.matchers = responses
+      .filter((response) => response.match !== undefined)
+      .map((response) => ({ pattern: new RegExp(response.match!, "i"), response }));
+    this.queue = responses.filter((response) => response.match === undefined);
+  }
+
+  static fromFile(path: string): ScriptedProvider {
+    const parsed = fixtureFileSchema.safeParse(JSON.parse(readFileSync(path, "utf-8")));
+    if (!parsed.success) {
+      throw new Error(`Invalid LLM fixture file ${path}: ${fromZodError(parsed.error).message}`);
+    }
+    return new ScriptedProvider(parsed.data.responses);
+  }
+
+  private next(request: LlmRequest): ScriptedResponse {
+    const haystack = describeRequest(request);
+    const matched = this.matchers.find((m) => m.pattern.test(haystack));
+    if (matched) return matched.response;
+    const queued = this.queue.shift();
+    if (queued) return queued;
+    throw new Error(`No scripted response left for request (model ${request.model})`);
+  }
+
+  async chat(request: LlmRequest): Promise<LlmResponse> {
+    const response = this.next(request);
+    return {
+      text: response.text,
+      toolCalls: response.toolCalls.map((call) => ({ name: call.name, input: call.input })),
+      stopReason: response.stopReason,
+      usage: { inputTokens: 0, outputTokens: Math.ceil(response.text.length / 4) },
+    };
+  }
+
+  async stream(request: LlmRequest, onText: (text: string) => void): Promise<LlmResponse> {
+    const result = await this.chat(request);
+    for (let i = 0; i < result.text.length; i += STREAM_CHUNK_SIZE) {
+      onText(result.text.slice(i, i + STREAM_CHUNK_SIZE));
+    }
+    return result;
+  }
+}
@@ -0,0 +1,46 @@
+export type LlmContentPart =
+  | { type: "text"; text: string }
+  // Vision input: base64 image data with its MIME type
+  | { type: "image"; mediaType: string; data: string };
+
+export interface LlmMessage {
+  role: "user" | "assistant";
+  content: string | LlmContentPart[];
+}
+
+export interface LlmTool {
+  name: string;
+  description: string;
+  /** JSON Schema for the tool input. */
+  inputSchema: Record<string, unknown>;
+}
+
+export interface LlmToolCall {
+  name: string;
+  input: unknown;
+}
+
+export interface LlmRequest {
+  model: string;
+  maxTokens: number;
+  system?: string;
+  messages: LlmMessage[];
+  tools?: LlmTool[];
+  /** Forces the model to answer by calling this tool. */
+  toolChoice?: string;
+}
+
+export interface LlmResponse {
+  text: string;
+  toolCalls: LlmToolCall[];
+  /** Provider stop reason; "max_tokens" means the reply was cut off. */
+  stopReason: string | null;
+  usage: { inputTokens: number; outputTokens: number };
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  chat(request: LlmRequest): Promise<LlmResponse>;
+  /** Like chat, but calls onText with each text delta as it arrives. */
+  stream(request: LlmRequest, onText: (text: string) => void): Promise<LlmResponse>;
+}
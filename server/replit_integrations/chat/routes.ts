@@ -1,11 +1,6 @@
 import type { Express, Request, Response } from "express";
-import Anthropic from "@anthropic-ai/sdk";
 import { chatStorage } from "./storage";
-
-const anthropic = new Anthropic({
-  apiKey: process.env.AI_INTEGRATIONS_ANTHROPIC_API_KEY,
-  baseURL: process.env.AI_INTEGRATIONS_ANTHROPIC_BASE_URL,
-});
+import { getLlmProvider, phaseConfig } from "../../llm";
 
 export function registerChatRoutes(app: Express): void {
   // Get all conversations
@@ -80,24 +75,14 @@ export function registerChatRoutes(app: Express): void {
       res.setHeader("Cache-Control", "no-cache");
       res.setHeader("Connection", "keep-alive");
 
-      // Stream response from Anthropic
-      const stream = anthropic.messages.stream({
-        model: "claude-sonnet-4-5",
-        max_tokens: 8192,
-        messages: chatMessages,
-      });
-
+      // Stream response from the configured model provider
+      const { model, maxTokens } = phaseConfig("chat");
       let fullResponse = "";
 
-      for await (const event of stream) {
-        if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
-          const content = event.delta.text;
-          if (content) {
-            fullResponse += content;
-            res.write(`data: ${JSON.stringify({ content })}\n\n`);
-          }
-        }
-      }
+      await getLlmProvider().stream({ model, maxTokens, messages: chatMessages }, (content) => {
+        fullResponse += content;
+        res.write(`data: ${JSON.stringify({ content })}\n\n`);
+      });
 
       // Save assistant message
       await chatStorage.createMessage(conversationId, "assistant", fullResponse);
@@ -1,47 +1,66 @@
-import type { Express } from "express";
+import { Router, type Express, type NextFunction, type Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { db } from "./db";
-import { generatedApps } from "@shared/schema";
+import { generatedApps, appAggregateSchema, appBatchSchema, appDataModeSchema, appDocPatchSchema, appDocPreconditionSchema, appExportFormatSchema, appImportSchema, appOtpRequestSchema, appOtpVerifySchema, appPlanSchema, appQuerySchema, appSignInSchema, appSignUpSchema, appUserRoleSchema, insertAppStorageIndexSchema, type AppBatchOp, type AppCollectionRules, type AppDataSchema, type AppDocPrecondition, type AppPlan, type AppFile, type AppQuery, type AppUser, type Conversation, type GeneratedApp, type ProjectFiles } from "@shared/schema";
 import { eq } from "drizzle-orm";
-import Anthropic from "@anthropic-ai/sdk";
 import WebSocket from "ws";
 import { randomUUID } from "crypto";
+import { extname } from "path";
 import multer from "multer";
-
-
-const anthropic = new Anthropic({
-  apiKey: process.env.AI_INTEGRATIONS_ANTHROPIC_API_KEY,
-  baseURL: process.env.AI_INTEGRATIONS_ANTHROPIC_BASE_URL,
-});
-
-function mergeMultiFileWebApp(response: string): string | null {
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { diffLines } from "@shared/diff";
+import { renderAppHtml } from "./app-sdk";
+import { extractDataSchema, validateAppDocument } from "./app-data-schema";
+import { exportAppData, planAppImport } from "./app-data-transfer";
+import { appBatchUsageChange, appDocData, appDocKey, planAppBatch, type AppBatchFailure, type AppBatchOutcome, type PlannedAppBatchOp } from "./app-batch";
+import { appDataScope, issueAppToken, renewAppToken, requireAppToken, verifyAppToken, type AppTokenClaims } from "./app-tokens";
+import { followAppData, publishAppDataChange, type PublishedAppDataChange } from "./app-data-feed";
+import { APP_SYNC_PAGE_SIZE, encodeAppSyncCursor, parseAppSyncCursor, type AppSyncCursor } from "./app-sync";
+import { appHostOrigin, isAppHostIsolated, mountAppHost } from "./app-host";
+import {
+  accessAllows, appAccess, appUserProfile, canSendOtpCodes, hashOtpCode, hashSecret, newAppSessionToken, newOtpCode,
+  readAppSession, sendOtpCode, APP_SESSION_TTL_MS, OTP_MAX_ATTEMPTS, OTP_RESEND_INTERVAL_MS, OTP_TTL_MS, type AppAccess,
+} from "./app-auth";
+import { comparePasswords, hashPassword } from "./auth";
+import { APP_FILE_MIME_TYPES, appFileKey, appFileLimits, getFileStore } from "./app-files";
+import {
+  appDocBytes, appDocSizeError, appStorageLimits, appStorageQuotaError, cachedAppStorageUsage, countAppStorageWrite,
+  forgetAppStorageUsage, takeVisitorWrite, type AppStorageUsage,
+} from "./app-quotas";
+import { startBuildJob, followBuildJob, type EventSink } from "./build-jobs";
+import { openEventStream, type EventStream } from "./event-stream";
+import { buildChatContext } from "./chat-context";
+import type { AppDataEventMap, BuilderEventMap, TtsEventMap } from "@shared/events";
+import { getLlmProvider, phaseConfig, type LlmContentPart, type LlmMessage, type LlmPhase, type LlmTool, type LlmToolCall } from "./llm";
+
+function parseProjectFiles(response: string): ProjectFiles {
   const fileRegex = /<file\s+path="([^"]*)">\s*([\s\S]*?)<\/file>/g;
-  const files: Record<string, string> = {};
+  const files: ProjectFiles = {};
   let match;
   while ((match = fileRegex.exec(response)) !== null) {
-    files[match[1]] = match[2].trim();
-  }
-
-  const htmlFile = files["index.html"] || Object.entries(files).find(([k]) => k.endsWith(".html"))?.[1];
-  if (!htmlFile || (!htmlFile.includes("<html") && !htmlFile.includes("<!DOCTYPE"))) {
-    return null;
+    const path = normalizeProjectPath(match[1]);
+    if (path) files[path] = match[2].trim();
   }
+  return files;
+}
 
-  let merged = htmlFile;
+function serializeProject(files: ProjectFiles): string {
+  const parts = Object.entries(files).map(([path, content]) => `<file path="${path}">\n${content}\n</file>`);
+  return `<web_app>\n${parts.join("\n")}\n</web_app>`;
+}
 
-  for (const [path, content] of Object.entries(files)) {
-    if (path.endsWith(".css")) {
-      const linkPattern = new RegExp(`<link[^>]*href=["']${path.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}["'][^>]*/?>`, "gi");
-      merged = merged.replace(linkPattern, `<style>\n${content}\n</style>`);
-    }
-    if (path.endsWith(".js")) {
-      const scriptPattern = new RegExp(`<script[^>]*src=["']${path.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}["'][^>]*>\\s*</script>`, "gi");
-      merged = merged.replace(scriptPattern, `<script>\n${content}\n</script>`);
-    }
-  }
+/** Strips leading "./" and "/" and rejects anything that walks out of the project. */
+function normalizeProjectPath(path: string): string | null {
+  const cleaned = path.trim().replace(/^(\.\/|\/)+/, "");
+  if (!cleaned || cleaned.split("/").some(segment => segment === ".." || segment === "")) return null;
+  return cleaned;
+}
 
-  return merged;
+function findEntryFile(files: ProjectFiles): string | undefined {
+  if (files["index.html"]) return "index.html";
+  return Object.keys(files).find(path => path.endsWith(".html"));
 }
 
 function extractHtmlFromResponse(response: string): string | null {
@@ -64,11 +83,6 @@ function extractHtmlFromResponse(response: string): string | null {
     }
   }
 
-  if (response.includes("<web_app>") || response.includes("<file ")) {
-    const merged = mergeMultiFileWebApp(response);
-    if (merged) return merged;
-  }
-
   const doctypeIdx = response.indexOf("<!DOCTYPE");
   const htmlIdx = response.indexOf("<html");
   const startIdx = doctypeIdx >= 0 ? doctypeIdx : htmlIdx;
@@ -94,45 +108,21 @@ function getLanguageName(code: string): string {
   return map[code] || "English";
 }
 
-const SYSTEM_PROMPT_PLANNING = (lang: string) => `You are Indic Copilot, an AI app builder assistant. You help users plan and build web applications through conversation.
-
-Your role during the PLANNING phase:
-1. Ask clarifying questions to understand what the user wants to build
-2. Understand the purpose, target audience, and key features
-3. Keep questions focused and one at a time
-4. After gathering enough info (usually 3-5 exchanges), present a clear app plan summary
-5. When presenting the plan, format it clearly with sections for: App Name, Description, Key Features, and Pages/Screens
-6. End your plan summary with: "Would you like me to build this app? Say 'yes' or 'approve' to start building!"
-
-CRITICAL LANGUAGE RULE: You MUST respond ENTIRELY in ${lang}. Every single word of your response must be in ${lang}. The user has selected ${lang} as their language. Do NOT use English unless ${lang} is English. This is non-negotiable.
-Keep responses concise and conversational - this is a voice-first interface designed for speaking aloud.
-NEVER use emojis or special symbols in your responses. Your text will be read aloud by a text-to-speech engine, so emojis get spoken as their names (e.g. "waving hand"). Use only plain text.`;
-
-const SYSTEM_PROMPT_BUILD = (lang: string) => `You are Indic Copilot, an AI app builder. The user has approved the app plan. Now generate the complete app.
-
-CRITICAL OUTPUT FORMAT: Your entire response must be ONLY a single HTML file. Start your response with <!DOCTYPE html> and end with </html>. Do NOT include any text before or after the HTML. Do NOT use markdown code blocks. Do NOT wrap in <web_app>, <file>, or any other tags. Do NOT generate multiple files.
-
-Generate a SINGLE, complete, self-contained HTML file that includes:
-- All HTML structure
-- All CSS styles in a single <style> tag inside <head>
-- All JavaScript in a single <script> tag before </body>
-- Use modern CSS (flexbox, grid, custom properties)
-- Make it mobile-responsive
-- Use a clean, professional color scheme
-- Include realistic placeholder content
-- Make all interactive elements functional
-
-DATA PERSISTENCE - CRITICAL:
+const APP_SDK_DOCS = `DATA PERSISTENCE - CRITICAL:
 A global "AppDB" object is automatically injected into the page before your code runs. You MUST use AppDB for ALL data storage instead of localStorage. AppDB persists data to a real database.
 
 AppDB API (all methods return Promises):
-- AppDB.list("collection") → returns array of documents: [{id, ...fields, _createdAt, _updatedAt}]
+- AppDB.list("collection") → returns array of documents: [{id, ...fields, _createdAt, _updatedAt, _version}], newest first
+- AppDB.list("collection", query) → filtered, sorted and paged on the server (see QUERIES below)
 - AppDB.get("collection", "docId") → returns single document or throws 404
+- AppDB.aggregate("collection", {groupBy, metrics, where, dateBucket}) → totals, counts and averages computed on the server, one row per group (see REPORTS below)
 - AppDB.create("collection", {field1: value1, ...}) → creates a new document with auto-generated id, returns it
 - AppDB.create("collection", {field1: value1, ...}, "customId") → creates with specific id
-- AppDB.update("collection", "docId", {field1: newValue, ...}) → updates document, returns it
+- AppDB.update("collection", "docId", {field1: newValue, ...}) → replaces the document's fields, returns it
+- AppDB.patch("collection", "docId", {field1: newValue, stock: AppDB.increment(-1), ...}) → changes only the listed fields, returns the document (see COUNTERS below)
 - AppDB.remove("collection", "docId") → deletes a document
 - AppDB.clear("collection") → deletes all documents in a collection
+- AppDB.subscribe("collection", query, function(docs, change){...}) → live query: calls back right away with the results of AppDB.list("collection", query), then again whenever anyone (another phone, another tab) creates, updates or deletes a document in the collection. change is null on the first call, otherwise {type: "create"|"update"|"delete"|"clear", docId, doc}. Returns a function that stops the subscription. query may be omitted.
 
 Example usage:
   // Save a customer
@@ -144,6 +134,66 @@ Example usage:
   // Delete a customer
   await AppDB.remove("customers", customers[0].id);
 
+QUERIES - filter, sort and page in AppDB.list instead of loading everything and filtering in JavaScript:
+  var open = await AppDB.list("orders", {
+    where: { status: "open", total: { gte: 100 }, tags: { contains: "urgent" } },
+    orderBy: { field: "dueDate", direction: "asc" },   // or an array of up to 3
+    limit: 20,
+    select: ["customer", "total", "dueDate"]
+  });
+  // Next page: pass the cursor from the previous result (null when there are no more pages)
+  if (open.nextCursor) var more = await AppDB.list("orders", { where: {...}, orderBy: {...}, limit: 20, cursor: open.nextCursor });
+- where: a plain value means equals; operators are eq, ne, lt, lte, gt, gte, in (array of values), contains (array element or case-insensitive substring)
+- Fields may be nested with dots ("address.city"); id, _ownerId, _createdAt, _updatedAt and _version can be used too
+- lt/lte/gt/gte only match values of the same type, so store numbers as numbers and dates as ISO strings ("2024-05-01")
+- limit is at most 1000; select returns only the listed fields plus id, _createdAt and _updatedAt
+
+REPORTS AND DASHBOARDS - for totals, counts, averages and charts use AppDB.aggregate; NEVER AppDB.list everything and add it up in JavaScript:
+  var daily = await AppDB.aggregate("bills", {
+    where: { status: "paid" },                           // same filters as QUERIES
+    groupBy: "paymentMode",                              // a field, or an array of up to 3
+    dateBucket: { field: "billDate", unit: "day" },      // unit: "day", "week" (from Monday) or "month"
+    metrics: { bills: "count", revenue: { sum: "total" }, avgBill: { avg: "total" }, biggest: { max: "total" } },
+    orderBy: { field: "billDate", direction: "asc" },    // a group field or a metric name
+    limit: 90
+  });
+  // → [{ paymentMode: "cash", billDate: "2024-05-01", bills: 12, revenue: 8450, avgBill: 704.17, biggest: 2100 }, ...]
+- metrics are "count", { sum: field }, { avg: field }, { min: field } or { max: field }; without metrics each row has a "count"
+- dateBucket values are the day the bucket starts ("2024-05-01" for May), in the phone's time zone; use them as chart labels
+- Without groupBy and dateBucket the result is a single row with the totals of all matching documents
+- Rows are sorted by the group fields unless orderBy is given; at most 1000 rows
+
+LIVE UPDATES - when several people use the app at once (shop billing, queues, shared lists), render lists with AppDB.subscribe instead of a one-off AppDB.list so everyone sees new entries without reloading:
+  AppDB.subscribe("bills", { orderBy: { field: "_createdAt", direction: "desc" }, limit: 50 }, function(bills){
+    renderBills(bills);
+  });
+
+COUNTERS AND ATOMIC WRITES - several people may write at once (two billing counters, attendance from many phones), so never read a number, change it in JavaScript and write it back:
+  // Field operators are applied on the server, so concurrent changes add up
+  await AppDB.patch("products", productId, {
+    stock: AppDB.increment(-2),          // AppDB.increment() adds 1; negative numbers subtract
+    tags: AppDB.arrayUnion("sale"),      // adds values not already in the array; AppDB.arrayRemove("sale") takes them out
+    discount: AppDB.unset(),             // removes the field
+    lastSoldAt: new Date().toISOString() // plain values are set as they are
+  });
+  // Writes that must happen together: all of them are saved, or none if one fails
+  var results = await AppDB.batch([
+    { type: "create", collection: "bills", data: { total: 640, items: [...] } },
+    { type: "patch", collection: "products", id: riceId, data: { stock: AppDB.increment(-2) } },
+    { type: "patch", collection: "products", id: dalId, data: { stock: AppDB.increment(-1) } }
+  ]);                                    // types: create, update, patch, remove; at most 100 writes
+- results holds each document as saved (null for remove); a failed batch throws an Error whose "index" is the write that failed
+- Every document has a "_version" number that goes up with each write. Pass { ifVersion: doc._version } to update, patch, remove (or in a batch write) to only write if nobody changed the document since you read it; otherwise the call throws with status 409 and error.doc is the current document, so show it and let the user try again
+- AppDB.batch needs a connection; patch, like the other writes, is queued while offline
+
+STORAGE LIMITS - each app may keep a limited number of documents and bytes, and one document can be at most ${Math.floor(appStorageLimits().maxDocBytes / 1024)} KB. A write that goes over throws with status 413 (tell the user storage is full and offer to delete old entries); visitors of a shared app who write very fast get status 429 (wait a few seconds and try again). Keep photos in AppFiles, not in documents.
+
+OFFLINE - AppDB keeps working without a network: reads come from a local cache and writes are queued, then sent when the connection returns (documents not yet sent have _pending: true). No extra code is needed; to show sync state or pick a side when someone else changed the same document meanwhile:
+  const waiting = await AppDB.pendingWrites();   // writes not yet on the server
+  AppDB.onConflict(function(conflict){           // { collection, docId, local, remote }
+    return "remote";                             // keep the server's version (the default), or "local" to overwrite it
+  });
+
 IMPORTANT RULES for AppDB:
 - Always use async/await or .then() since all AppDB methods return Promises
 - Use descriptive collection names like "customers", "orders", "tasks", "products"
@@ -151,6 +201,63 @@ IMPORTANT RULES for AppDB:
 - Load data from AppDB when the page loads using an async init function
 - The document "id" field is a string, not a number
 
+DATA SCHEMA - declare every AppDB collection the app uses in a JSON block inside <head> of the entry page (index.html):
+  <script type="application/json" id="appdb-schema">
+  {"collections": {
+    "customers": {"fields": {
+      "name": {"type": "string", "required": true},
+      "phone": {"type": "string"},
+      "status": {"type": "enum", "values": ["active", "inactive"], "default": "active"},
+      "visits": {"type": "number", "default": 0},
+      "joinedOn": {"type": "date"}
+    }}
+  }}
+  </script>
+- Field types: string, number, boolean, date (ISO string like "2024-05-01"), enum (with "values"), array, object
+- "required": true rejects documents without the field; "default" fills it in when missing
+- The server validates every create/update against this schema. A rejected write throws an Error whose "fields" property maps field names to messages, e.g. {"phone": "Expected string, received number"}; show those next to the form inputs
+- Store numbers as numbers and booleans as booleans, not strings
+
+FILES AND PHOTOS - AppFiles:
+A global "AppFiles" object is also injected. Use it to keep photos, receipts and documents; NEVER put base64 file data into AppDB documents.
+
+AppFiles API (all methods return Promises):
+- AppFiles.upload(file, "optional name") → uploads a File/Blob from <input type="file"> or a camera capture, returns {id, name, mimeType, size, url, _createdAt}
+- AppFiles.list() → all files of the app, newest first, each with a url
+- AppFiles.url(fileId) → a URL for <img src>, <a href> or <audio src>; build it again each time you render, it expires after a while
+- AppFiles.remove(fileId) → deletes a file
+- Allowed types: JPEG, PNG, GIF and WebP images, PDF, plain text, CSV, audio and MP4/WebM video; at most ${Math.floor(appFileLimits().maxFileBytes / (1024 * 1024))} MB per file. Too large or full storage throws with status 413, other types with 415
+
+Example - save a photo with a record:
+  var photo = await AppFiles.upload(document.getElementById('photoInput').files[0]);
+  await AppDB.create("products", { name: "Rice 5kg", price: 320, photoId: photo.id });
+  // When rendering: img.src = AppFiles.url(product.photoId);
+
+USER ACCOUNTS - AppAuth:
+A global "AppAuth" object is also injected. Use it ONLY when the plan needs logins (staff and patients, teachers and parents, members and admins); otherwise do not add sign-in screens.
+These are the app's own users, stored separately for this app.
+
+AppAuth API (all methods return Promises):
+- AppAuth.signUp(email, password, {name}) → creates an account (password at least 8 characters), signs in, returns the user
+- AppAuth.signIn(email, password) → signs in, returns the user; throws with status 401 on a wrong email or password
+- AppAuth.sendOtp(phone) → texts a 6-digit code to the phone (e.g. "+919876543210")
+- AppAuth.verifyOtp(phone, code, {name}) → signs in with the code, creating the account on first use, returns the user
+- AppAuth.signOut()
+- AppAuth.currentUser() → the signed-in user or null; call it on page load to decide between the sign-in screen and the app
+- AppAuth.onChange(function(user){...}) → called after every sign-in and sign-out (user is null when signed out)
+A user looks like {id, email, phone, name, role, createdAt}. role is "user" until the app owner changes it (e.g. to "admin"), so show admin-only screens when user.role === "admin".
+Prefer phone + OTP sign-in for apps used mostly on phones; offer email and password when the plan asks for it.
+
+ACCESS RULES - protect collections with "rules" in the appdb-schema block when the app has logins:
+  "appointments": {
+    "fields": {...},
+    "rules": {"read": ["owner", "role:admin"], "create": "signedIn", "update": ["owner", "role:admin"], "delete": "role:admin"}
+  }
+- Each of read, create, update, delete is one rule or a list (any of them allows): "anyone" (the default), "signedIn", "owner" (documents the signed-in user created) or "role:<name>"
+- Every document remembers who created it in "_ownerId" (the user's id, null when nobody was signed in)
+- With "read": "owner", AppDB.list only returns the user's own documents
+- A denied call throws an Error with status 401 (sign in first) or 403 (not allowed); show a friendly message
+
 AI CAPABILITIES - AppAI:
 A global "AppAI" object is also automatically injected. Use it when the app needs AI features like image analysis, text generation, classification, or Q&A.
 
@@ -178,15 +285,415 @@ IMPORTANT RULES for AppAI:
 - Show a loading indicator while waiting for AI responses (they take a few seconds)
 - For image upload, use <input type="file" accept="image/*"> and pass the File object directly to AppAI.ask()
 - AppAI can see and analyze images (photos, screenshots, documents, etc.)
-- Handle errors with try/catch and show user-friendly error messages
+- Handle errors with try/catch and show user-friendly error messages`;
+
+const SYSTEM_PROMPT_PLANNING = (lang: string, plan?: AppPlan | null) => `You are Indic Copilot, an AI app builder assistant. You help users plan and build web applications through conversation.
+
+Your role during the PLANNING phase:
+1. Ask clarifying questions to understand what the user wants to build
+2. Understand the purpose, target audience, and key features
+3. Keep questions focused and one at a time
+4. After gathering enough info (usually 3-5 exchanges), present a clear app plan summary
+5. When presenting the plan, format it clearly with sections for: App Name, Description, Key Features, and Pages/Screens
+6. End your plan summary with: "Would you like me to build this app? Say 'yes' or 'approve' to start building!"
+7. Every time you present or revise the plan summary, ALSO call the save_plan tool with the same plan in structured form, including the data collections the app will store and their fields. Do not call it while you are still asking questions.
+${plan ? `
+CURRENT PLAN (the user may have edited it or switched features off; treat it as the latest version and only change what the user asks for):
+${formatPlan(plan)}
+` : ""}
+CRITICAL LANGUAGE RULE: You MUST respond ENTIRELY in ${lang}. Every single word of your response must be in ${lang}. The user has selected ${lang} as their language. Do NOT use English unless ${lang} is English. This is non-negotiable.
+Keep responses concise and conversational - this is a voice-first interface designed for speaking aloud.
+NEVER use emojis or special symbols in your responses. Your text will be read aloud by a text-to-speech engine, so emojis get spoken as their names (e.g. "waving hand"). Use only plain text.`;
+
+const SAVE_PLAN_TOOL: LlmTool = {
+  name: "save_plan",
+  description: "Save the structured version of the app plan you just presented, so the user can review and edit it before building.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      name: { type: "string", description: "App name" },
+      description: { type: "string", description: "One or two sentences on what the app does and for whom" },
+      features: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { title: { type: "string" }, description: { type: "string" } },
+          required: ["title"],
+        },
+      },
+      pages: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { name: { type: "string" }, description: { type: "string" } },
+          required: ["name"],
+        },
+      },
+      collections: {
+        type: "array",
+        description: "AppDB collections the app stores data in",
+        items: {
+          type: "object",
+          properties: { name: { type: "string" }, fields: { type: "array", items: { type: "string" } } },
+          required: ["name", "fields"],
+        },
+      },
+    },
+    required: ["name", "description", "features", "pages", "collections"],
+  },
+};
+
+function readSavedPlan(toolCalls: LlmToolCall[]): AppPlan | null {
+  const toolUse = toolCalls.find((call) => call.name === SAVE_PLAN_TOOL.name);
+  if (!toolUse) return null;
+  const parsed = appPlanSchema.safeParse(toolUse.input);
+  if (!parsed.success) {
+    console.warn("[PLAN] Ignoring malformed save_plan input:", fromZodError(parsed.error).message);
+    return null;
+  }
+  return parsed.data;
+}
+
+function formatPlan(plan: AppPlan): string {
+  const enabled = plan.features.filter(f => f.enabled);
+  const disabled = plan.features.filter(f => !f.enabled);
+  const lines = [
+    `App Name: ${plan.name}`,
+    `Description: ${plan.description}`,
+    "Key Features:",
+    ...enabled.map(f => `- ${f.title}${f.description ? `: ${f.description}` : ""}`),
+  ];
+  if (disabled.length > 0) {
+    lines.push("Features the user switched off (do NOT build these):", ...disabled.map(f => `- ${f.title}`));
+  }
+  lines.push("Pages/Screens:", ...plan.pages.map(p => `- ${p.name}${p.description ? `: ${p.description}` : ""}`));
+  if (plan.collections.length > 0) {
+    lines.push("Data collections (AppDB):", ...plan.collections.map(c => `- ${c.name}: ${c.fields.join(", ")}`));
+  }
+  return lines.join("\n");
+}
+
+const SYSTEM_PROMPT_BUILD = (lang: string) => `You are Indic Copilot, an AI app builder. The user has approved the app plan. Now generate the complete app.
+
+CRITICAL OUTPUT FORMAT: Your entire response must be ONLY the app code. Do NOT include any text before or after it. Do NOT use markdown code blocks. Choose ONE of these two formats:
+
+FORMAT A - single file (use this for small and medium apps):
+Start your response with <!DOCTYPE html> and end with </html>. Generate a SINGLE, complete HTML file that includes:
+- All HTML structure
+- All CSS styles in a single <style> tag inside <head>
+- All JavaScript in a single <script> tag before </body>
+
+FORMAT B - multi-file project (use this only for larger apps with many screens or a lot of logic):
+<web_app>
+<file path="index.html">
+<!DOCTYPE html>
+...
+</file>
+<file path="css/styles.css">
+...
+</file>
+<file path="js/app.js">
+...
+</file>
+</web_app>
+- index.html is the entry page and must reference the other files with relative paths (href="css/styles.css", src="js/app.js")
+- Additional pages (e.g. "reports.html") may link to each other with relative paths; AppDB and AppAI are available on every HTML page
+- Use only text files: .html, .css, .js, .json, .svg
+- Never write the text "</file>" inside a file's content
+
+For both formats:
+- Use modern CSS (flexbox, grid, custom properties)
+- Make it mobile-responsive
+- Use a clean, professional color scheme
+- Include realistic placeholder content
+- Make all interactive elements functional
+- Build sales summaries, reports and dashboard totals with AppDB.aggregate, so they stay fast when the app has years of data
+
+${APP_SDK_DOCS}
 
-The HTML must be completely self-contained with NO external dependencies.
+The app must be completely self-contained with NO external dependencies.
 Do NOT use any CDN links or external resources.
 
 CRITICAL: All user-facing text, labels, buttons, headings, placeholder content, and descriptions in the generated app MUST be in ${lang}. Do not use English text unless ${lang} is English.
 
-Remember: Output ONLY the raw HTML starting with <!DOCTYPE html>. Nothing else.`;
+Remember: Output ONLY the raw HTML starting with <!DOCTYPE html>, or ONLY the <web_app> project. Nothing else.`;
+
+const SYSTEM_PROMPT_EDIT = (lang: string) => `You are Indic Copilot, an AI app builder. The user has already built an app with you and now wants to refine it. The complete HTML of the current app is included in the user's latest message inside <current_app> tags.
+
+Decide what the user wants:
+- If they ask for a change (a new field, a different layout, bigger buttons, a bug fix, a new feature), output the COMPLETE updated app in the same format as the current app: a single HTML file starting with <!DOCTYPE html> and ending with </html>, or, if the current app is a <web_app> project, the whole <web_app> with every <file> (changed or not). Do NOT include any text before or after the code. Do NOT use markdown code blocks. Do NOT output a diff or only the changed parts.
+- If they only ask a question about the app, or the request is unclear, reply briefly in plain text without any HTML and ask what they would like to change.
+
+When changing the app:
+- Apply only the requested change and keep everything else exactly as it is
+- Keep the same AppDB collection names and field names so data the user has already saved keeps showing up
+- Keep the appdb-schema block in sync with the data the app saves. If a field or collection really must be renamed, declare the old name with "renamedFrom" (e.g. "mobile": {"type": "string", "renamedFrom": "phone"}, or "clients": {"renamedFrom": "customers", "fields": {...}}) so saved documents are migrated to the new name
+- A new field with a "default" is filled in on documents saved before it existed
+- When adding a field, make the app handle older documents that do not have it yet
+- Keep the app self-contained, mobile-responsive and in the same visual style
+
+${APP_SDK_DOCS}
+
+The app must be completely self-contained with NO external dependencies.
+Do NOT use any CDN links or external resources.
+
+CRITICAL LANGUAGE RULE: All user-facing text in the app, and any plain text reply, MUST be in ${lang}. Do not use English unless ${lang} is English.
+NEVER use emojis in plain text replies. They will be read aloud by a text-to-speech engine.`;
+
+interface ExtractedProject {
+  htmlContent: string;
+  files: ProjectFiles | null;
+  dataSchema: AppDataSchema | null;
+}
+
+function patchTruncatedHtml(htmlContent: string): string {
+  if (htmlContent.includes("</html>")) return htmlContent;
+  console.warn("[BUILD] WARNING: Generated HTML appears truncated (missing </html> closing tag). Appending closing tags.");
+  if (!htmlContent.includes("</script>")) {
+    htmlContent += "\n    </script>";
+  }
+  if (!htmlContent.includes("</body>")) {
+    htmlContent += "\n</body>";
+  }
+  return htmlContent + "\n</html>";
+}
+
+/**
+ * Pulls the app out of a model response: either a <web_app> project of several
+ * files or a single HTML document. Returns null when no HTML entry page was found.
+ */
+function extractAppProject(response: string): ExtractedProject | null {
+  if (response.includes("<web_app>") || response.includes("<file ")) {
+    const files = parseProjectFiles(response);
+    const entry = findEntryFile(files);
+    if (entry && (files[entry].includes("<html") || files[entry].includes("<!DOCTYPE"))) {
+      files[entry] = patchTruncatedHtml(files[entry]);
+      const isMultiFile = Object.keys(files).length > 1;
+      return { htmlContent: files[entry], files: isMultiFile ? files : null, dataSchema: extractDataSchema(files[entry]) };
+    }
+  }
+
+  const htmlContent = extractHtmlFromResponse(response);
+  if (!htmlContent) return null;
+  return { htmlContent: patchTruncatedHtml(htmlContent), files: null, dataSchema: extractDataSchema(htmlContent) };
+}
+
+const MAX_BUILD_CONTINUATIONS = 3;
+
+/** A generated response is complete once the document (or every file of a project) has been closed. */
+function isAppResponseComplete(response: string): boolean {
+  if (response.includes("<web_app>") || response.includes("<file ")) {
+    const opened = (response.match(/<file\s+path=/g) || []).length;
+    const closed = (response.match(/<\/file>/g) || []).length;
+    return opened > 0 && opened === closed;
+  }
+  return /<\/html>/i.test(response);
+}
+
+/** What the model sees as the "current app" when editing, in the same shape it should answer in. */
+function describeCurrentApp(app: Pick<GeneratedApp, "htmlContent" | "files">): string {
+  return app.files ? serializeProject(app.files) : app.htmlContent;
+}
+
+/**
+ * In the editing phase the model either answers in plain text or returns a full
+ * HTML document. Looks at the start of the stream to tell which; null means
+ * there is not enough text yet to decide.
+ */
+function classifyResponseStart(text: string): "html" | "text" | null {
+  const head = text.trimStart().toLowerCase();
+  if (!head) return null;
+  const markers = ["<!doctype", "<html", "```html", "<web_app", "<file "];
+  if (markers.some(m => head.startsWith(m))) return "html";
+  if (markers.some(m => m.startsWith(head))) return null;
+  return "text";
+}
+
+
+interface StreamOptions {
+  phase: LlmPhase;
+  system: string;
+  messages: LlmMessage[];
+  /** null lets the start of the stream decide (editing: plain-text answer or a new document). */
+  kind: "html" | "text" | null;
+  tools?: LlmTool[];
+}
+
+interface StreamedResponse {
+  text: string;
+  kind: "html" | "text" | null;
+  toolCalls: LlmToolCall[];
+  stopReason: string | null;
+  isIncomplete: boolean;
+}
+
+/**
+ * Streams a model reply to the client as SSE content events. An app document that
+ * hits max_tokens is resumed by prefilling the assistant turn with what we have so far.
+ */
+async function streamModelResponse(send: EventSink, options: StreamOptions): Promise<StreamedResponse> {
+  let fullResponse = "";
+  let responseKind = options.kind;
+  let stopReason: string | null = null;
+  let toolCalls: LlmToolCall[] = [];
+  const { model, maxTokens } = phaseConfig(options.phase);
+
+  for (let attempt = 0; attempt <= MAX_BUILD_CONTINUATIONS; attempt++) {
+    if (attempt > 0) {
+      console.log(`[BUILD] Response hit max_tokens, requesting continuation ${attempt}/${MAX_BUILD_CONTINUATIONS} (${fullResponse.length} chars so far)`);
+      // The API rejects a prefilled assistant turn that ends in whitespace
+      fullResponse = fullResponse.trimEnd();
+    }
+
+    const response = await getLlmProvider().stream({
+      model,
+      maxTokens,
+      system: options.system,
+      messages: attempt === 0 ? options.messages : [...options.messages, { role: "assistant", content: fullResponse }],
+      tools: options.tools,
+    }, (text) => {
+      fullResponse += text;
+      if (responseKind === null) {
+        responseKind = classifyResponseStart(fullResponse);
+        if (responseKind === "html") {
+          send({ event: "phase", data: { phase: "editing" } });
+        }
+        if (responseKind !== null) {
+          send({ event: "content", data: { text: fullResponse } });
+        }
+      } else {
+        send({ event: "content", data: { text } });
+      }
+    });
+
+    stopReason = response.stopReason;
+    toolCalls = response.toolCalls;
+    if (stopReason !== "max_tokens" || responseKind !== "html") break;
+  }
+
+  if (responseKind === null && fullResponse) {
+    send({ event: "content", data: { text: fullResponse } });
+  }
+
+  const isIncomplete = responseKind === "html" && (stopReason === "max_tokens" || !isAppResponseComplete(fullResponse));
+  if (isIncomplete) {
+    console.warn(`[BUILD] Response is still incomplete after ${MAX_BUILD_CONTINUATIONS} continuations (stop_reason: ${stopReason})`);
+  }
+
+  return { text: fullResponse, kind: responseKind, toolCalls, stopReason, isIncomplete };
+}
+
+interface BuildContext {
+  langName: string;
+  userId: string;
+  /** The user message that approved the plan; null when the build was started from the button. */
+  messageId: number | null;
+}
+
+/** Builds the app from the conversation's approved plan, reporting progress and the result to send. */
+async function runBuild(send: EventSink, conv: Conversation & { plan: AppPlan }, { langName, userId, messageId }: BuildContext) {
+  send({ event: "phase", data: { phase: "building" } });
+
+  // The approved (and possibly user-edited) plan replaces the planning transcript
+  const result = await streamModelResponse(send, {
+    phase: "build",
+    system: SYSTEM_PROMPT_BUILD(langName),
+    messages: [{
+      role: "user",
+      content: `${formatPlan(conv.plan)}\n\nThe user has approved this plan. Now generate the complete app. Start your response with <!DOCTYPE html> (single file) or <web_app> (multi-file project) immediately. Do NOT include any text, explanation, or markdown — output ONLY the code.`,
+    }],
+    kind: "html",
+  });
+
+  await storage.createMessage({ conversationId: conv.id, role: "assistant", content: result.text });
+
+  const project = result.isIncomplete ? null : extractAppProject(result.text);
+  console.log(`[BUILD] HTML extraction result: ${project ? `success (${project.htmlContent.length} chars, ${project.files ? Object.keys(project.files).length : 1} files)` : "FAILED"}`);
+
+  if (project) {
+    const titleMatch = project.htmlContent.match(/<title>(.*?)<\/title>/i);
+    const appTitle = titleMatch ? titleMatch[1] : conv.title;
+
+    const app = await storage.createApp({
+      conversationId: conv.id,
+      title: appTitle,
+      description: conv.title,
+      ...project,
+      language: conv.language,
+      userId,
+    }, { source: "build", messageId, authorId: userId });
+
+    await storage.updateConversation(conv.id, { phase: "completed" });
+    send({ event: "app_created", data: { appId: app.id } });
+  } else {
+    console.log(`[BUILD] HTML extraction failed, resetting conversation ${conv.id} to planning phase`);
+    await storage.updateConversation(conv.id, { phase: "planning" });
+    send({ event: "error", data: { message: "The app could not be completed. Try approving again, or ask for fewer features." } });
+  }
+}
+
+/** Moves the conversation into the building phase and runs the build as a background job. */
+async function startBuild(conv: Conversation & { plan: AppPlan }, context: BuildContext) {
+  await storage.updateConversation(conv.id, { phase: "building" });
+  const job = await startBuildJob({ conversationId: conv.id, userId: context.userId }, (send) => runBuild(send, conv, context));
+  console.log(`[JOB] Started build job ${job.id} for conversation ${conv.id}`);
+  return job;
+}
+
+const APPROVAL_CONFIDENCE = 0.8;
+
+const planIntentSchema = z.object({
+  intent: z.enum(["approve", "revise", "question"]),
+  confidence: z.number().min(0).max(1),
+});
 
+type PlanIntent = z.infer<typeof planIntentSchema>;
+
+const CLASSIFY_INTENT_TOOL: LlmTool = {
+  name: "classify_intent",
+  description: "Record what the user's latest message means for the proposed app plan.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      intent: {
+        type: "string",
+        enum: ["approve", "revise", "question"],
+        description: "approve: wants the app built now exactly as planned. revise: wants to add, remove or change something (even when also saying yes). question: asks something or says anything else.",
+      },
+      confidence: { type: "number", minimum: 0, maximum: 1 },
+    },
+    required: ["intent", "confidence"],
+  },
+};
+
+const SYSTEM_PROMPT_INTENT = `You classify messages sent to a voice-first app builder. Users speak Indian languages (Kannada, Hindi, Tamil, Telugu, Malayalam, Marathi, Bengali, Gujarati, Punjabi, Odia) or English, often mixed, and their words come from speech recognition so they may be misspelled.
+
+You get the proposed app plan, the assistant's last message and the user's reply. Decide whether the user approves building the app now, wants to revise the plan, or is asking a question. A reply that agrees but also asks for a change (for example "yes, but change the colour") is a revision. Judge the meaning of the whole message, not single words. Always answer by calling classify_intent.`;
+
+/** Model-based replacement for keyword matching on approval words; falls back to "question" on failure. */
+async function classifyPlanIntent(plan: AppPlan, lastAssistantMessage: string, userMessage: string): Promise<PlanIntent> {
+  try {
+    const { model, maxTokens } = phaseConfig("intent");
+    const response = await getLlmProvider().chat({
+      model,
+      maxTokens,
+      system: SYSTEM_PROMPT_INTENT,
+      tools: [CLASSIFY_INTENT_TOOL],
+      toolChoice: CLASSIFY_INTENT_TOOL.name,
+      messages: [{
+        role: "user",
+        content: `<plan>\n${formatPlan(plan)}\n</plan>\n\n<assistant_message>\n${lastAssistantMessage}\n</assistant_message>\n\n<user_reply>\n${userMessage}\n</user_reply>`,
+      }],
+    });
+    const toolUse = response.toolCalls.find((call) => call.name === CLASSIFY_INTENT_TOOL.name);
+    const parsed = planIntentSchema.safeParse(toolUse?.input);
+    if (parsed.success) return parsed.data;
+    console.warn("[INTENT] Malformed classification:", toolUse?.input);
+  } catch (error: any) {
+    console.error("[INTENT] Classification failed:", error?.message || error);
+  }
+  return { intent: "question", confidence: 0 };
+}
 
 export async function registerRoutes(
   httpServer: Server,
@@ -200,6 +707,15 @@ export async function registerRoutes(
     next();
   }
 
+  // Everything generated apps reach: their pages and the AppDB/AppAI endpoints
+  const runtime = Router();
+  mountAppHost(app, runtime);
+
+  // Owner-declared AppDB indexes live outside the drizzle schema, so a db:push can drop them
+  storage.ensureAppStorageIndexes().catch((error) => {
+    console.error("[APPDB] Failed to recreate declared indexes:", error?.message || error);
+  });
+
   // --- Conversations ---
   app.get("/api/conversations", requireAuth, async (req: any, res) => {
     try {
@@ -217,7 +733,8 @@ export async function registerRoutes(
       if (!conv) return res.status(404).json({ error: "Not found" });
       if (conv.userId && conv.userId !== req.user.id) return res.status(403).json({ error: "Forbidden" });
       const msgs = await storage.getMessagesByConversation(id);
-      res.json({ ...conv, messages: msgs });
+      const activeJob = conv.phase === "building" ? await storage.getActiveBuildJob(id) : undefined;
+      res.json({ ...conv, messages: msgs, activeJob: activeJob ?? null });
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch conversation" });
     }
@@ -250,13 +767,33 @@ export async function registerRoutes(
     }
   });
 
+  app.put("/api/conversations/:id/plan", requireAuth, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const conv = await storage.getConversation(id);
+      if (!conv) return res.status(404).json({ error: "Conversation not found" });
+      if (conv.userId && conv.userId !== req.user.id) return res.status(403).json({ error: "Forbidden" });
+
+      const parsed = appPlanSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      const updated = await storage.updateConversation(id, { plan: parsed.data });
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update plan" });
+    }
+  });
+
   // --- Chat with streaming ---
   app.post("/api/conversations/:id/messages", requireAuth, async (req: any, res) => {
+    let stream: EventStream<BuilderEventMap> | undefined;
     try {
       const conversationId = parseInt(req.params.id);
       const { content, language: msgLanguage } = req.body;
       const conv = await storage.getConversation(conversationId);
       if (!conv) return res.status(404).json({ error: "Conversation not found" });
+      if (conv.userId && conv.userId !== req.user.id) return res.status(403).json({ error: "Forbidden" });
 
       if (!content || typeof content !== "string" || !content.trim()) {
         return res.status(400).json({ error: "Message content is required" });
@@ -268,504 +805,1390 @@ export async function registerRoutes(
         await storage.updateConversation(conversationId, { language: msgLanguage });
       }
 
-      await storage.createMessage({ conversationId, role: "user", content: content.trim() });
+      const userMessage = await storage.createMessage({ conversationId, role: "user", content: content.trim() });
 
       const existingMessages = await storage.getMessagesByConversation(conversationId);
       const langName = getLanguageName(activeLanguage);
 
-      const approvalWords = [
-        "yes", "approve", "build it", "go ahead", "sure", "do it", "let's go",
-        "haan", "theek hai", "banao", "shuru karo",
-        "ಹೌದು", "ಒಪ್ಪುತ್ತೇನೆ", "ಶುರು ಮಾಡಿ", "ಮಾಡಿಕೊಡಿ", "ಕಟ್ಟು", "ಕಟ್ಟಿ", "ರೆಡಿ",
-        "சரி", "ஆமா", "செய்யுங்கள்", "தொடங்கு",
-        "అవును", "చేయండి", "మొదలు పెట్టండి",
-        "ശരി", "ചെയ്യൂ", "തുടങ്ങൂ",
-        "हां", "हाँ", "बनाओ", "शुरू करो",
-        "হ্যাঁ", "শুরু করো",
-        "હા", "શરૂ કરો",
-        "ਹਾਂ", "ਸ਼ੁਰੂ ਕਰੋ",
-        "ହଁ",
-      ];
-      const contentLower = content.trim().toLowerCase();
-      const isShortApproval = content.trim().length < 60;
-      const isApproval = isShortApproval && approvalWords.some(w => {
-        const word = w.toLowerCase();
-        if (/^[a-z\s]+$/.test(word)) {
-          const regex = new RegExp(`\\b${word}\\b`, "i");
-          return regex.test(contentLower);
+      stream = openEventStream<BuilderEventMap>(res);
+      const send: EventSink = (event) => stream!.send(event);
+
+      if (conv.phase === "planning" && conv.plan) {
+        const lastAssistantMsg = [...existingMessages].reverse().find(m => m.role === "assistant")?.content || "";
+        const intent = await classifyPlanIntent(conv.plan, lastAssistantMsg, content.trim());
+        console.log(`[INTENT] Conversation ${conversationId}: ${intent.intent} (confidence ${intent.confidence})`);
+
+        if (intent.intent === "approve" && intent.confidence >= APPROVAL_CONFIDENCE) {
+          console.log(`[BUILD] Approval detected for conversation ${conversationId}, triggering build phase`);
+          const job = await startBuild({ ...conv, plan: conv.plan }, { langName, userId: req.user.id, messageId: userMessage.id });
+          // The client follows the job on /api/jobs/:id/events, so the build survives this request closing
+          send({ event: "job", data: { jobId: job.id } });
+          return stream.end();
         }
-        return contentLower.includes(word);
-      });
-      const assistantMessages = existingMessages.filter(m => m.role === "assistant");
-      const lastAssistantMsg = assistantMessages.length > 0 ? assistantMessages[assistantMessages.length - 1].content : "";
-      const planIndicators = ["?", "ಕಟ್ಟಲಾ", "ಮುಂದುವರಿಯಲಾ", "ಒಪ್ಪುತ್ತೀರಾ", "build", "approve", "ready",
-        "बनाएं", "शुरू", "செய்யலாமா", "చేయమంటారా", "ചെയ്യട്ടെ", "কর", "કરું", "ਕਰਾਂ", "କରିବା"];
-      const lastMsgAskedForApproval = planIndicators.some(p => lastAssistantMsg.toLowerCase().includes(p.toLowerCase()));
-      const hasPlan = assistantMessages.length >= 3 && conv.phase === "planning" && lastMsgAskedForApproval;
+      }
+
+      const appToEdit = conv.phase === "completed" ? await storage.getAppByConversation(conversationId) : undefined;
 
       let systemPrompt: string;
-      let shouldBuildApp = false;
+      if (appToEdit) {
+        console.log(`[EDIT] Conversation ${conversationId} is refining app ${appToEdit.id} (revision ${appToEdit.revision})`);
+        systemPrompt = SYSTEM_PROMPT_EDIT(langName);
+      } else {
+        systemPrompt = SYSTEM_PROMPT_PLANNING(langName, conv.plan);
+      }
+
+      const chatMessages = await buildChatContext(conv, existingMessages, {
+        lastMessagePrefix: appToEdit ? `<current_app>\n${describeCurrentApp(appToEdit)}\n</current_app>` : undefined,
+      });
+
+      const result = await streamModelResponse(send, {
+        phase: appToEdit ? "edit" : "planning",
+        system: systemPrompt,
+        messages: chatMessages,
+        // Edits hold back the first few characters until we know whether the reply is a new document
+        kind: appToEdit ? null : "text",
+        tools: appToEdit ? undefined : [SAVE_PLAN_TOOL],
+      });
+      let fullResponse = result.text;
+
+      const proposedPlan = appToEdit ? null : readSavedPlan(result.toolCalls);
+      if (proposedPlan) {
+        console.log(`[PLAN] Structured plan saved for conversation ${conversationId}: ${proposedPlan.name} (${proposedPlan.features.length} features)`);
+        await storage.updateConversation(conversationId, { plan: proposedPlan });
+        if (!fullResponse.trim()) {
+          // The model only called the tool; give the chat (and TTS) something to show
+          fullResponse = formatPlan(proposedPlan);
+          send({ event: "content", data: { text: fullResponse } });
+        }
+        send({ event: "plan", data: { plan: proposedPlan } });
+      }
+
+      await storage.createMessage({ conversationId, role: "assistant", content: fullResponse });
+
+      if (appToEdit && result.kind === "html") {
+        const project = result.isIncomplete ? null : extractAppProject(fullResponse);
+        console.log(`[EDIT] HTML extraction result: ${project ? `success (${project.htmlContent.length} chars, ${project.files ? Object.keys(project.files).length : 1} files)` : "FAILED"}`);
+
+        if (project) {
+          const titleMatch = project.htmlContent.match(/<title>(.*?)<\/title>/i);
+          const updated = await storage.commitAppRevision(appToEdit.id, {
+            title: titleMatch ? titleMatch[1] : appToEdit.title,
+            ...project,
+          }, { source: "edit", messageId: userMessage.id, authorId: req.user.id });
+          send({ event: "app_updated", data: { appId: appToEdit.id, revision: updated?.revision } });
+        } else {
+          send({ event: "error", data: { message: "The updated app could not be completed. Your current version is unchanged." } });
+        }
+      }
+
+      send({ event: "done", data: {} });
+      stream.end();
+    } catch (error) {
+      console.error("Chat error:", error);
+      if (stream) {
+        stream.send({ event: "error", data: { message: "Failed to process message" } });
+        stream.end();
+      } else {
+        res.status(500).json({ error: "Failed to process message" });
+      }
+    }
+  });
+
+  // --- Explicit build (the "Approve & Build" button) ---
+  app.post("/api/conversations/:id/build", requireAuth, async (req: any, res) => {
+    try {
+      const conversationId = parseInt(req.params.id);
+      const conv = await storage.getConversation(conversationId);
+      if (!conv) return res.status(404).json({ error: "Conversation not found" });
+      if (conv.userId && conv.userId !== req.user.id) return res.status(403).json({ error: "Forbidden" });
+      if (conv.phase !== "planning") return res.status(409).json({ error: `Conversation is already ${conv.phase}` });
+      if (!conv.plan) return res.status(400).json({ error: "There is no plan to build yet" });
+
+      const langName = getLanguageName(req.body?.language || conv.language || "en-US");
+      const job = await startBuild({ ...conv, plan: conv.plan }, { langName, userId: req.user.id, messageId: null });
+      res.status(202).json({ jobId: job.id });
+    } catch (error) {
+      console.error("Build error:", error);
+      res.status(500).json({ error: "Failed to build app" });
+    }
+  });
+
+  // --- Build jobs ---
+  app.get("/api/jobs/:id", requireAuth, async (req: any, res) => {
+    try {
+      const job = await storage.getBuildJob(parseInt(req.params.id));
+      if (!job) return res.status(404).json({ error: "Job not found" });
+      if (job.userId && job.userId !== req.user.id) return res.status(403).json({ error: "Forbidden" });
+      res.json(job);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch job" });
+    }
+  });
 
-      if (isApproval && hasPlan) {
-        console.log(`[BUILD] Approval detected for conversation ${conversationId}, triggering build phase`);
-        systemPrompt = SYSTEM_PROMPT_BUILD(langName);
-        shouldBuildApp = true;
-        await storage.updateConversation(conversationId, { phase: "building" });
+  app.get("/api/jobs/:id/events", requireAuth, async (req: any, res) => {
+    try {
+      const job = await storage.getBuildJob(parseInt(req.params.id));
+      if (!job) return res.status(404).json({ error: "Job not found" });
+      if (job.userId && job.userId !== req.user.id) return res.status(403).json({ error: "Forbidden" });
+
+      // Event ids are output offsets, so a reconnecting client only receives what it missed
+      const after = Math.max(0, parseInt(req.get("Last-Event-ID") || "0") || 0);
+      const stream = openEventStream<BuilderEventMap>(res);
+
+      let stop = () => {};
+      stop = await followBuildJob(job.id, after, (event, id) => {
+        stream.send(event, id);
+        if (event.event === "done") {
+          stop();
+          stream.end();
+        }
+      });
+      req.on("close", () => stop());
+    } catch (error) {
+      console.error("Job events error:", error);
+      if (res.headersSent) {
+        res.end();
       } else {
-        systemPrompt = SYSTEM_PROMPT_PLANNING(langName);
+        res.status(500).json({ error: "Failed to follow job" });
       }
+    }
+  });
 
-      let chatMessages = existingMessages.map((m) => ({
-        role: m.role as "user" | "assistant",
-        content: m.content,
-      }));
+  // --- Recover apps from messages that contain HTML but were never saved ---
+  app.post("/api/apps/recover", requireAuth, async (req: any, res) => {
+    try {
+      const allConvs = await storage.getAllConversations(req.user.id);
+      let recovered = 0;
+
+      for (const conv of allConvs) {
+        const existingApps = await db.select().from(generatedApps).where(eq(generatedApps.conversationId, conv.id));
+        if (existingApps.length > 0) continue;
+
+        const msgs = await storage.getMessagesByConversation(conv.id);
+        for (const msg of msgs) {
+          if (msg.role !== "assistant") continue;
+          const project = extractAppProject(msg.content);
+          if (project) {
+            const titleMatch = project.htmlContent.match(/<title>(.*?)<\/title>/i);
+            const appTitle = titleMatch ? titleMatch[1] : conv.title;
+            await storage.createApp({
+              conversationId: conv.id,
+              title: appTitle,
+              description: conv.title,
+              ...project,
+              language: conv.language,
+              userId: req.user.id,
+            });
+            await storage.updateConversation(conv.id, { phase: "completed" });
+            recovered++;
+            break;
+          }
+        }
+      }
+
+      res.json({ recovered, message: `Recovered ${recovered} apps from existing conversations.` });
+    } catch (error) {
+      console.error("Recovery error:", error);
+      res.status(500).json({ error: "Failed to recover apps" });
+    }
+  });
+
+  // --- Generated Apps ---
+  app.get("/api/apps", requireAuth, async (req: any, res) => {
+    try {
+      const apps = await storage.getAllApps(req.user.id);
+      res.json(apps);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch apps" });
+    }
+  });
+
+  // What each of the user's apps keeps in AppDB and AppFiles, against the per-app quotas
+  app.get("/api/usage", requireAuth, async (req: any, res) => {
+    try {
+      const storageLimits = appStorageLimits();
+      const fileLimits = appFileLimits();
+      res.json({
+        limits: {
+          docs: storageLimits.quotaDocs,
+          bytes: storageLimits.quotaBytes,
+          files: fileLimits.quotaFiles,
+          fileBytes: fileLimits.quotaBytes,
+        },
+        apps: await storage.getUserAppUsage(req.user.id),
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch usage" });
+    }
+  });
+
+  app.get("/api/apps/:id", requireAuth, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const appData = await storage.getApp(id);
+      if (!appData) return res.status(404).json({ error: "App not found" });
+      if (appData.userId && appData.userId !== req.user.id) return res.status(403).json({ error: "Forbidden" });
+      res.json(appData);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch app" });
+    }
+  });
+
+  app.delete("/api/apps/:id", requireAuth, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const appData = await storage.getApp(id);
+      if (appData && appData.userId && appData.userId !== req.user.id) return res.status(403).json({ error: "Forbidden" });
+      await storage.deleteApp(id);
+      await getFileStore().deletePrefix(`${id}/`);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete app" });
+    }
+  });
+
+  // --- App Revisions ---
+  app.get("/api/apps/:id/revisions", requireAuth, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const appData = await storage.getApp(id);
+      if (!appData) return res.status(404).json({ error: "App not found" });
+      if (appData.userId && appData.userId !== req.user.id) return res.status(403).json({ error: "Forbidden" });
+
+      await storage.ensureAppRevision(appData);
+      const revisions = await storage.getAppRevisions(id);
+      res.json(revisions);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch revisions" });
+    }
+  });
+
+  app.get("/api/apps/:id/revisions/diff", requireAuth, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const from = parseInt(String(req.query.from));
+      const to = parseInt(String(req.query.to));
+      if (isNaN(from) || isNaN(to)) return res.status(400).json({ error: "from and to revisions are required" });
+
+      const appData = await storage.getApp(id);
+      if (!appData) return res.status(404).json({ error: "App not found" });
+      if (appData.userId && appData.userId !== req.user.id) return res.status(403).json({ error: "Forbidden" });
+
+      const [before, after] = await Promise.all([
+        storage.getAppRevision(id, from),
+        storage.getAppRevision(id, to),
+      ]);
+      if (!before || !after) return res.status(404).json({ error: "Revision not found" });
+
+      const chunks = diffLines(describeCurrentApp(before), describeCurrentApp(after));
+      const added = chunks.filter(c => c.op === "add").reduce((n, c) => n + c.lines.length, 0);
+      const removed = chunks.filter(c => c.op === "remove").reduce((n, c) => n + c.lines.length, 0);
+      res.json({ from, to, added, removed, chunks });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to diff revisions" });
+    }
+  });
+
+  // Restoring only swaps the app's HTML; AppDB documents are keyed by app id and stay untouched.
+  app.post("/api/apps/:id/revisions/:revision/restore", requireAuth, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const revisionNumber = parseInt(req.params.revision);
+      const appData = await storage.getApp(id);
+      if (!appData) return res.status(404).json({ error: "App not found" });
+      if (appData.userId && appData.userId !== req.user.id) return res.status(403).json({ error: "Forbidden" });
+
+      const target = await storage.getAppRevision(id, revisionNumber);
+      if (!target) return res.status(404).json({ error: "Revision not found" });
+      if (target.revision === appData.revision) return res.json(appData);
+
+      const restored = await storage.commitAppRevision(id, {
+        title: target.title,
+        htmlContent: target.htmlContent,
+        files: target.files,
+        dataSchema: target.dataSchema,
+      }, { source: "restore", authorId: req.user.id, restoredFrom: target.revision });
+      res.json(restored);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to restore revision" });
+    }
+  });
+
+  // --- AppDB Indexes (owner-declared, on fields the app queries often) ---
+  const MAX_INDEXES_PER_APP = 20;
+
+  app.get("/api/apps/:id/indexes", requireAuth, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const appData = await storage.getApp(id);
+      if (!appData) return res.status(404).json({ error: "App not found" });
+      if (appData.userId && appData.userId !== req.user.id) return res.status(403).json({ error: "Forbidden" });
+
+      res.json(await storage.listAppStorageIndexes(id));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch indexes" });
+    }
+  });
+
+  app.post("/api/apps/:id/indexes", requireAuth, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const parsed = insertAppStorageIndexSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: fromZodError(parsed.error).message });
+
+      const appData = await storage.getApp(id);
+      if (!appData) return res.status(404).json({ error: "App not found" });
+      if (appData.userId && appData.userId !== req.user.id) return res.status(403).json({ error: "Forbidden" });
+
+      const existing = await storage.listAppStorageIndexes(id);
+      if (existing.length >= MAX_INDEXES_PER_APP) {
+        return res.status(400).json({ error: `An app can have at most ${MAX_INDEXES_PER_APP} indexes` });
+      }
+      const index = await storage.createAppStorageIndex(id, parsed.data);
+      if (!index) return res.status(409).json({ error: "That field is already indexed" });
+      console.log(`[APPDB] Indexed ${parsed.data.collection}.${parsed.data.field} for app ${id}`);
+      res.status(201).json(index);
+    } catch (error) {
+      console.error("[APPDB] Failed to create index:", error);
+      res.status(500).json({ error: "Failed to create index" });
+    }
+  });
+
+  app.delete("/api/apps/:id/indexes/:indexId", requireAuth, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const appData = await storage.getApp(id);
+      if (!appData) return res.status(404).json({ error: "App not found" });
+      if (appData.userId && appData.userId !== req.user.id) return res.status(403).json({ error: "Forbidden" });
+
+      const deleted = await storage.deleteAppStorageIndex(id, parseInt(req.params.indexId));
+      if (!deleted) return res.status(404).json({ error: "Index not found" });
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete index" });
+    }
+  });
+
+  // --- App Sharing ---
+  app.post("/api/apps/:id/share", requireAuth, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const appData = await storage.getApp(id);
+      if (!appData) return res.status(404).json({ error: "App not found" });
+      if (appData.userId && appData.userId !== req.user.id) return res.status(403).json({ error: "Forbidden" });
+
+      if (appData.shareId) {
+        return res.json({ shareId: appData.shareId });
+      }
+
+      const shareId = randomUUID().slice(0, 8);
+      const updated = await storage.setAppShareId(id, shareId);
+      res.json({ shareId: updated?.shareId });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to share app" });
+    }
+  });
+
+  app.delete("/api/apps/:id/share", requireAuth, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const appData = await storage.getApp(id);
+      if (!appData) return res.status(404).json({ error: "App not found" });
+      if (appData.userId && appData.userId !== req.user.id) return res.status(403).json({ error: "Forbidden" });
+
+      await storage.setAppShareId(id, "");
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to unshare app" });
+    }
+  });
+
+  // What visitors of the shared link do with the app's data: share it, each get their own, or only read it
+  app.put("/api/apps/:id/data-mode", requireAuth, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const appData = await storage.getApp(id);
+      if (!appData) return res.status(404).json({ error: "App not found" });
+      if (appData.userId && appData.userId !== req.user.id) return res.status(403).json({ error: "Forbidden" });
+
+      const parsed = z.object({ dataMode: appDataModeSchema }).safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: fromZodError(parsed.error).message });
+
+      const updated = await storage.setAppDataMode(id, parsed.data.dataMode);
+      res.json({ dataMode: updated?.dataMode });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update data mode" });
+    }
+  });
+
+  app.get("/api/shared/:shareId", async (req, res) => {
+    try {
+      const appData = await storage.getAppByShareId(req.params.shareId);
+      if (!appData) return res.status(404).json({ error: "Shared app not found" });
+      res.json({ id: appData.id, title: appData.title, description: appData.description, language: appData.language });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch shared app" });
+    }
+  });
+
+  // Visitors are told apart by their account, or by an id kept in their session when signed out
+  app.get("/api/shared/:shareId/serve", async (req: any, res) => {
+    try {
+      const appData = await storage.getAppByShareId(req.params.shareId);
+      if (!appData) return res.status(404).send("Shared app not found");
+
+      let issued;
+      if (req.user && appData.userId === req.user.id) {
+        issued = issueAppToken(appData.id, "owner");
+      } else {
+        const visitorId = req.user ? `user:${req.user.id}` : (req.session.visitorId ??= randomUUID());
+        issued = issueAppToken(appData.id, "visitor", { visitorId });
+      }
+      res.redirect(`${appHostOrigin(req)}/run/${issued.token}/`);
+    } catch (error) {
+      res.status(500).send("Failed to serve shared app");
+    }
+  });
+
+  app.post("/api/shared/:shareId/clone", requireAuth, async (req: any, res) => {
+    try {
+      const appData = await storage.getAppByShareId(req.params.shareId);
+      if (!appData) return res.status(404).json({ error: "Shared app not found" });
+
+      const clonedApp = await storage.createApp({
+        title: appData.title + " (clone)",
+        description: appData.description,
+        htmlContent: appData.htmlContent,
+        files: appData.files,
+        dataSchema: appData.dataSchema,
+        language: appData.language,
+        userId: req.user.id,
+      }, { source: "clone", authorId: req.user.id });
+      res.status(201).json(clonedApp);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to clone app" });
+    }
+  });
+
+  // --- App Serve ---
+  // Pages run on the app origin (see app-host.ts). These builder routes check access and redirect
+  // there; multi-file projects are served page by page below the launch URL.
+  function sendProjectFile(res: Response, files: ProjectFiles | null, rawPath: string, render: (html: string) => string) {
+    const path = normalizeProjectPath(rawPath);
+    const content = path && files ? files[path] : undefined;
+    if (!path || content === undefined) return res.status(404).send("File not found");
+
+    if (path.endsWith(".html")) {
+      res.setHeader("Content-Type", "text/html; charset=utf-8");
+      return res.send(render(content));
+    }
+    res.type(extname(path) || "txt");
+    res.send(content);
+  }
+
+  function sendAppPage(res: Response, source: Pick<GeneratedApp, "htmlContent" | "files">, path: string[] | undefined, render: (html: string) => string) {
+    if (path && path.length > 0) return sendProjectFile(res, source.files, path.join("/"), render);
+    res.setHeader("Content-Type", "text/html; charset=utf-8");
+    res.send(render(source.htmlContent));
+  }
+
+  app.get("/api/app-host", (_req, res) => {
+    res.json({ isolated: isAppHostIsolated() });
+  });
+
+  // Previews name themselves with ?client=<id> so the data feed below can skip their own writes
+  const CLIENT_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+
+  function readClientId(req: any): string | undefined {
+    const client = req.query.client;
+    return typeof client === "string" && CLIENT_ID_PATTERN.test(client) ? client : undefined;
+  }
+
+  // Owner previews read and write the app's data; older revisions can only read it.
+  app.get("/api/apps/:id/serve", requireAuth, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const appData = await storage.getApp(id);
+      if (!appData) return res.status(404).send("App not found");
+      if (appData.userId && appData.userId !== req.user.id) return res.status(403).send("Forbidden");
+
+      let revision: number | undefined;
+      if (req.query.revision) {
+        const found = await storage.getAppRevision(id, parseInt(String(req.query.revision)));
+        if (!found) return res.status(404).send("Revision not found");
+        revision = found.revision;
+      }
+      const { token } = issueAppToken(id, revision ? "readonly" : "owner", { revision, clientId: readClientId(req) });
+      res.redirect(`${appHostOrigin(req)}/run/${token}/`);
+    } catch (error) {
+      res.status(500).send("Failed to serve app");
+    }
+  });
+
+  // Changes to the app's own data from any device; the preview reloads on those it did not make
+  app.get("/api/apps/:id/data-events", requireAuth, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const appData = await storage.getApp(id);
+      if (!appData) return res.status(404).json({ error: "App not found" });
+      if (appData.userId && appData.userId !== req.user.id) return res.status(403).json({ error: "Forbidden" });
+
+      const stream = openEventStream<AppDataEventMap>(res);
+      const stop = followAppData(id, "", ({ ownerId: _ownerId, ...change }) => {
+        stream.send({ event: "change", data: change });
+      });
+      stream.send({ event: "ready", data: {} });
+      req.on("close", stop);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to follow app data" });
+    }
+  });
+
+  runtime.get("/run/:token{/*path}", async (req, res) => {
+    try {
+      const claims = verifyAppToken(req.params.token);
+      if (!claims) return res.status(401).send("This app link has expired. Reload the page to open the app again.");
+      const appData = await storage.getApp(claims.appId);
+      if (!appData) return res.status(404).send("App not found");
+      if (claims.mode === "visitor" && !appData.shareId) return res.status(403).send("This app is no longer shared");
+
+      let source: Pick<GeneratedApp, "htmlContent" | "files"> = appData;
+      if (claims.revision) {
+        const revision = await storage.getAppRevision(appData.id, claims.revision);
+        if (!revision) return res.status(404).send("Revision not found");
+        source = revision;
+      }
+      sendAppPage(res, source, req.params.path, (html) => renderAppHtml(html, {
+        appId: appData.id,
+        language: appData.language,
+        token: renewAppToken(claims),
+        baseHref: source.files ? `/run/${req.params.token}/` : undefined,
+        dataset: appDataScope(appData.dataMode, claims).dataset,
+      }));
+    } catch (error) {
+      res.status(500).send("Failed to serve app");
+    }
+  });
+
+  // --- App Tokens (served pages renew theirs before it expires) ---
+  runtime.post("/api/app-tokens/refresh", requireAppToken("read"), async (req, res) => {
+    try {
+      const claims = res.locals.appToken as AppTokenClaims;
+      const appData = await storage.getApp(claims.appId);
+      if (!appData) return res.status(404).json({ error: "App not found" });
+      if (claims.mode === "visitor" && !appData.shareId) return res.status(403).json({ error: "This app is no longer shared" });
+
+      const issued = renewAppToken(claims);
+      res.json({ token: issued.token, expiresIn: issued.expiresAt - Date.now() });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to refresh app token" });
+    }
+  });
+
+  // --- App Storage API (every request carries the serving page's app token) ---
+  // Resolves the dataset the token reaches under the app's data mode into res.locals.dataset,
+  // and the signed-in AppAuth user (X-App-Session), if any, into res.locals.appUser
+  function requireAppData(access: "read" | "write") {
+    const checkToken = requireAppToken(access);
+    return (req: any, res: Response, next: NextFunction) => checkToken(req, res, async () => {
+      try {
+        const claims = res.locals.appToken as AppTokenClaims;
+        const appData = await storage.getApp(claims.appId);
+        if (!appData) return res.status(404).json({ error: "App not found" });
+        if (claims.mode === "visitor" && !appData.shareId) return res.status(403).json({ error: "This app is no longer shared" });
+
+        const scope = appDataScope(appData.dataMode, claims);
+        if (access === "write" && !scope.canWrite) return res.status(403).json({ error: "This app's data is read-only for visitors" });
+        if (access === "write" && claims.mode === "visitor") {
+          const wait = takeVisitorWrite(appData.id, { id: claims.visitorId ?? "", ip: req.ip ?? "" }, appStorageLimits());
+          if (wait !== null) {
+            res.setHeader("Retry-After", String(wait));
+            return res.status(429).json({ error: "Too many changes in a short time; wait a moment and try again" });
+          }
+        }
+        const session = readAppSession(req);
+        const appUser = session ? await storage.getAppUserBySession(appData.id, hashSecret(session)) : undefined;
+        res.locals.app = appData;
+        res.locals.dataset = scope.dataset;
+        res.locals.appUser = appUser ? appUserProfile(appUser) : null;
+        next();
+      } catch (error) {
+        res.status(500).json({ error: "Failed to check app access" });
+      }
+    });
+  }
+
+  // What the collection's AppAuth rules let the current app user do
+  function collectionAccess(res: Response, collection: string, action: keyof AppCollectionRules): AppAccess {
+    const appData = res.locals.app as GeneratedApp;
+    return appAccess(appData.dataSchema?.collections[collection]?.rules?.[action], res.locals.appUser);
+  }
+
+  function denyAppAccess(res: Response) {
+    if (!res.locals.appUser) return res.status(401).json({ error: "Sign in required" });
+    res.status(403).json({ error: "Forbidden" });
+  }
+
+  function publishChange(res: Response, change: Omit<PublishedAppDataChange, "clientId">) {
+    const claims = res.locals.appToken as AppTokenClaims;
+    publishAppDataChange(claims.appId, res.locals.dataset, { ...change, clientId: claims.clientId ?? null });
+  }
+
+  function appStorageUsage(appId: number): Promise<AppStorageUsage> {
+    return cachedAppStorageUsage(appId, () => storage.getAppStorageUsage(appId));
+  }
+
+  // Why writing these documents, changing the app's usage by `change`, would break its limits (answered with 413)
+  async function storageQuotaError(appId: number, docs: Record<string, unknown>[], change: AppStorageUsage): Promise<string | null> {
+    const limits = appStorageLimits();
+    for (const data of docs) {
+      const error = appDocSizeError(data, limits);
+      if (error) return error;
+    }
+    if (change.docs <= 0 && change.bytes <= 0) return null;
+    return appStorageQuotaError(await appStorageUsage(appId), change, limits);
+  }
+
+  function hasPrecondition(precondition: AppDocPrecondition): boolean {
+    return precondition.ifVersion !== undefined || precondition.ifUpdatedAt !== undefined;
+  }
+
+  // 409 with the document as it is now (when the app user may read it), so the client can resolve the conflict
+  async function sendConflict(res: Response, collection: string, docId: string) {
+    const current = await storage.getAppStorageDoc(res.locals.app.id, res.locals.dataset, collection, docId);
+    const readable = current && accessAllows(collectionAccess(res, collection, "read"), res.locals.appUser, current._ownerId);
+    res.status(409).json({ error: "Document was changed since it was read", doc: readable ? current : null });
+  }
+
+  // Pages of changes for offline clients to replay into their cache (see server/app-sync.ts)
+  runtime.get("/api/app-storage/:appId/_sync", requireAppData("read"), async (req: any, res) => {
+    try {
+      const appId = parseInt(req.params.appId);
+      let cursor: AppSyncCursor | null = null;
+      if (typeof req.query.cursor === "string") {
+        cursor = parseAppSyncCursor(req.query.cursor);
+        if (!cursor) return res.status(400).json({ error: "Invalid sync cursor" });
+      }
+
+      const page = await storage.syncAppStorage(appId, res.locals.dataset, cursor, APP_SYNC_PAGE_SIZE);
+      const changes = page.changes
+        .filter((change) => accessAllows(collectionAccess(res, change.collection, "read"), res.locals.appUser, change.ownerUserId))
+        .map(({ collection, docId, doc }) => ({ collection, id: docId, doc }));
+      res.json({ changes, cursor: encodeAppSyncCursor(page.cursor), hasMore: page.hasMore, reset: page.reset });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to sync documents" });
+    }
+  });
+
+  // Runs writes through planAppBatch (server/app-batch.ts) in one transaction, then announces what changed
+  async function runAppBatch(res: Response, ops: AppBatchOp[]): Promise<AppBatchOutcome> {
+    const appData = res.locals.app as GeneratedApp;
+    const appUser = res.locals.appUser;
+    const planned = ops.map((op) => ({ ...op, docId: op.docId ?? newAppDocId() })) as PlannedAppBatchOp[];
+    const usage = await appStorageUsage(appData.id);
+    let change: AppStorageUsage = { docs: 0, bytes: 0 };
+    const outcome = await storage.batchAppStorage(appData.id, res.locals.dataset, planned, (current) => {
+      const plan = planAppBatch(planned, current, {
+        schema: appData.dataSchema,
+        appUserId: appUser?.id ?? null,
+        allows: (collection, action, ownerId) => action === "create"
+          ? collectionAccess(res, collection, "create") !== "none"
+          : accessAllows(collectionAccess(res, collection, action), appUser, ownerId ?? null),
+      });
+      if (!plan.success) return plan;
+      const usageChange = appBatchUsageChange(plan.writes, current, usage, appStorageLimits());
+      if (!usageChange.success) return usageChange;
+      change = usageChange.change;
+      return plan;
+    });
+    if (!outcome.success) return outcome;
+    countAppStorageWrite(appData.id, change);
+    for (const { collection, docId, data, created, ownerUserId } of outcome.writes) {
+      const doc = data === null ? null : outcome.docs.get(appDocKey(collection, docId));
+      publishChange(res, { collection, type: data === null ? "delete" : created ? "create" : "update", docId, doc, ownerId: ownerUserId });
+    }
+    return outcome;
+  }
+
+  function sendBatchFailure(res: Response, { success, status, ...failure }: AppBatchFailure) {
+    if (status === 403) return denyAppAccess(res);
+    res.status(status).json(failure);
+  }
+
+  // Writes that commit together or not at all: { ops: [{ type, collection, docId, ... }] } → { results }.
+  // Registered before the collection routes, so "_batch" is not a usable collection name.
+  runtime.post("/api/app-storage/:appId/_batch", requireAppData("write"), async (req: any, res) => {
+    try {
+      const parsed = appBatchSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: fromZodError(parsed.error).message });
+      const outcome = await runAppBatch(res, parsed.data.ops);
+      if (!outcome.success) return sendBatchFailure(res, outcome);
+      const results = outcome.results.map((key) => key && outcome.docs.get(appDocKey(key.collection, key.docId)));
+      res.json({ results });
+    } catch (error) {
+      console.error("[APPDB] Batch failed:", error);
+      res.status(500).json({ error: "Failed to write batch" });
+    }
+  });
+
+  // Live changes to the dataset this page reaches, filtered by the read rules of each collection.
+  // Registered before the collection routes, so "_events" is not a usable collection name.
+  runtime.get("/api/app-storage/:appId/_events", requireAppData("read"), (req: any, res) => {
+    const appId = parseInt(req.params.appId);
+    const collections = typeof req.query.collections === "string" ? req.query.collections.split(",") : null;
+    const appUser = res.locals.appUser;
+    const stream = openEventStream<AppDataEventMap>(res);
+
+    const stop = followAppData(appId, res.locals.dataset, ({ ownerId, ...change }) => {
+      if (collections && !collections.includes(change.collection)) return;
+      const access = collectionAccess(res, change.collection, "read");
+      const wholeCollection = change.type === "clear" || change.type === "import";
+      if (wholeCollection ? access === "none" : !accessAllows(access, appUser, ownerId)) return;
+      stream.send({ event: "change", data: change });
+    });
+    stream.send({ event: "ready", data: {} });
+    req.on("close", stop);
+  });
+
+  runtime.get("/api/app-storage/:appId/:collection", requireAppData("read"), async (req: any, res) => {
+    try {
+      const appId = parseInt(req.params.appId);
+      const { collection } = req.params;
+      const access = collectionAccess(res, collection, "read");
+      if (access === "none") return denyAppAccess(res);
+
+      let query: AppQuery = {};
+      if (typeof req.query.q === "string") {
+        let raw: unknown;
+        try {
+          raw = JSON.parse(req.query.q);
+        } catch {
+          return res.status(400).json({ error: "Query must be JSON" });
+        }
+        const parsed = appQuerySchema.safeParse(raw);
+        if (!parsed.success) return res.status(400).json({ error: fromZodError(parsed.error).message });
+        query = parsed.data;
+      }
+
+      const ownerUserId = access === "own" ? res.locals.appUser.id : undefined;
+      const { docs, nextCursor } = await storage.listAppStorage(appId, res.locals.dataset, collection, query, ownerUserId);
+      if (nextCursor) res.setHeader("X-Next-Cursor", nextCursor);
+      res.json(docs);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to list documents" });
+    }
+  });
+
+  // Counts, sums, averages, min/max per group and date bucket, computed in SQL (see appAggregateStatement).
+  // Registered before the document route, so "_aggregate" is not a usable document id.
+  runtime.get("/api/app-storage/:appId/:collection/_aggregate", requireAppData("read"), async (req: any, res) => {
+    try {
+      const appId = parseInt(req.params.appId);
+      const { collection } = req.params;
+      const access = collectionAccess(res, collection, "read");
+      if (access === "none") return denyAppAccess(res);
+
+      let raw: unknown = {};
+      if (typeof req.query.q === "string") {
+        try {
+          raw = JSON.parse(req.query.q);
+        } catch {
+          return res.status(400).json({ error: "Query must be JSON" });
+        }
+      }
+      const parsed = appAggregateSchema.safeParse(raw);
+      if (!parsed.success) return res.status(400).json({ error: fromZodError(parsed.error).message });
+
+      const ownerUserId = access === "own" ? res.locals.appUser.id : undefined;
+      res.json(await storage.aggregateAppStorage(appId, res.locals.dataset, collection, parsed.data, ownerUserId));
+    } catch (error) {
+      console.error("[APPDB] Aggregate failed:", error);
+      res.status(500).json({ error: "Failed to aggregate documents" });
+    }
+  });
+
+  runtime.get("/api/app-storage/:appId/:collection/:docId", requireAppData("read"), async (req: any, res) => {
+    try {
+      const appId = parseInt(req.params.appId);
+      const { collection, docId } = req.params;
+      const access = collectionAccess(res, collection, "read");
+      if (access === "none") return denyAppAccess(res);
+
+      const doc = await storage.getAppStorageDoc(appId, res.locals.dataset, collection, docId);
+      if (!doc || !accessAllows(access, res.locals.appUser, doc._ownerId)) return res.status(404).json({ error: "Document not found" });
+      res.json(doc);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get document" });
+    }
+  });
+
+  runtime.post("/api/app-storage/:appId/:collection", requireAppData("write"), async (req: any, res) => {
+    try {
+      const appId = parseInt(req.params.appId);
+      const { collection } = req.params;
+      const { docId, data } = req.body;
+      if (!data) return res.status(400).json({ error: "data field required" });
+      if (typeof data !== "object" || Array.isArray(data)) return res.status(400).json({ error: "data must be an object" });
+      if (collectionAccess(res, collection, "create") === "none") return denyAppAccess(res);
+
+      const appData = res.locals.app as GeneratedApp;
+      const validation = validateAppDocument(appData.dataSchema, collection, data);
+      if (!validation.success) return res.status(400).json({ error: validation.error, fields: validation.fields });
+
+      const change = { docs: 1, bytes: appDocBytes(validation.data) };
+      const quotaError = await storageQuotaError(appId, [validation.data], change);
+      if (quotaError) return res.status(413).json({ error: quotaError });
+
+      const id = docId || newAppDocId();
+      const doc = await storage.createAppStorageDoc(appId, res.locals.dataset, collection, id, validation.data, res.locals.appUser?.id);
+      if (!doc) return res.status(409).json({ error: "Document already exists" });
+      countAppStorageWrite(appId, change);
+      publishChange(res, { collection, type: "create", docId: doc.id, doc, ownerId: doc._ownerId });
+      res.status(201).json(doc);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create document" });
+    }
+  });
+
+  runtime.put("/api/app-storage/:appId/:collection/:docId", requireAppData("write"), async (req: any, res) => {
+    try {
+      const appId = parseInt(req.params.appId);
+      const { collection, docId } = req.params;
+      const { data } = req.body;
+      if (!data) return res.status(400).json({ error: "data field required" });
+      if (typeof data !== "object" || Array.isArray(data)) return res.status(400).json({ error: "data must be an object" });
+      const precondition = appDocPreconditionSchema.safeParse(req.body);
+      if (!precondition.success) return res.status(400).json({ error: fromZodError(precondition.error).message });
+
+      // Updating an existing document needs the update rule; writing a new one counts as creating it
+      const existing = await storage.getAppStorageDoc(appId, res.locals.dataset, collection, docId);
+      const allowed = existing
+        ? accessAllows(collectionAccess(res, collection, "update"), res.locals.appUser, existing._ownerId)
+        : collectionAccess(res, collection, "create") !== "none";
+      if (!allowed) return denyAppAccess(res);
+
+      const appData = res.locals.app as GeneratedApp;
+      const validation = validateAppDocument(appData.dataSchema, collection, data);
+      if (!validation.success) return res.status(400).json({ error: validation.error, fields: validation.fields });
+      const change = existing
+        ? { docs: 0, bytes: appDocBytes(validation.data) - appDocBytes(appDocData(existing)) }
+        : { docs: 1, bytes: appDocBytes(validation.data) };
+      const quotaError = await storageQuotaError(appId, [validation.data], change);
+      if (quotaError) return res.status(413).json({ error: quotaError });
+
+      let doc;
+      if (hasPrecondition(precondition.data)) {
+        // Only replaces the version the client based its change on
+        doc = existing && await storage.updateAppStorageDoc(appId, res.locals.dataset, collection, docId, validation.data, precondition.data);
+        if (!doc) return sendConflict(res, collection, docId);
+      } else {
+        doc = await storage.upsertAppStorageDoc(appId, res.locals.dataset, collection, docId, validation.data, res.locals.appUser?.id);
+      }
+      countAppStorageWrite(appId, change);
+      publishChange(res, { collection, type: existing ? "update" : "create", docId, doc, ownerId: doc._ownerId });
+      res.json(doc);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update document" });
+    }
+  });
+
+  // Field operators (set, increment, arrayUnion, arrayRemove, unset), applied under a row lock like a one-write batch
+  runtime.patch("/api/app-storage/:appId/:collection/:docId", requireAppData("write"), async (req: any, res) => {
+    try {
+      const { collection, docId } = req.params;
+      const parsed = appDocPatchSchema.merge(appDocPreconditionSchema).safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: fromZodError(parsed.error).message });
+      const outcome = await runAppBatch(res, [{ ...parsed.data, type: "patch", collection, docId }]);
+      if (!outcome.success) return sendBatchFailure(res, outcome);
+      res.json(outcome.docs.get(appDocKey(collection, docId)));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update document" });
+    }
+  });
+
+  runtime.delete("/api/app-storage/:appId/:collection/:docId", requireAppData("write"), async (req: any, res) => {
+    try {
+      const appId = parseInt(req.params.appId);
+      const { collection, docId } = req.params;
+      if (docId === "_all") {
+        // Clearing needs delete access to every document of the collection(s)
+        const appData = res.locals.app as GeneratedApp;
+        const collections = collection === "_all" ? Object.keys(appData.dataSchema?.collections ?? {}) : [collection];
+        if (collections.some((name) => collectionAccess(res, name, "delete") !== "all")) return denyAppAccess(res);
+        await storage.clearAppStorage(appId, res.locals.dataset, collection === "_all" ? undefined : collection);
+        forgetAppStorageUsage(appId);
+        for (const name of collection === "_all" ? collections : [collection]) {
+          publishChange(res, { collection: name, type: "clear", docId: null, doc: null, ownerId: null });
+        }
+      } else {
+        const precondition = appDocPreconditionSchema.safeParse({
+          ifVersion: req.query.ifVersion !== undefined ? Number(req.query.ifVersion) : undefined,
+          ifUpdatedAt: req.query.ifUpdatedAt,
+        });
+        if (!precondition.success) return res.status(400).json({ error: fromZodError(precondition.error).message });
+        // Checked against the row the delete removes, so a document written meanwhile is checked too
+        const access = collectionAccess(res, collection, "delete");
+        const { doc, denied } = await storage.deleteAppStorageDoc(
+          appId, res.locals.dataset, collection, docId, precondition.data,
+          (ownerId) => accessAllows(access, res.locals.appUser, ownerId),
+        );
+        if (denied) return denyAppAccess(res);
+        if (doc) {
+          countAppStorageWrite(appId, { docs: -1, bytes: -appDocBytes(appDocData(doc)) });
+          publishChange(res, { collection, type: "delete", docId, doc: null, ownerId: doc._ownerId });
+        } else if (hasPrecondition(precondition.data) && await storage.getAppStorageDoc(appId, res.locals.dataset, collection, docId)) {
+          return sendConflict(res, collection, docId);
+        }
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete document" });
+    }
+  });
+
+  // --- App Files (uploads kept in the file store, metadata and quotas in app_files) ---
+  function toAppFileInfo(file: AppFile) {
+    return { id: file.fileId, name: file.name, mimeType: file.mimeType, size: file.size, _ownerId: file.ownerUserId, _createdAt: file.createdAt };
+  }
+
+  const appFileUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: appFileLimits().maxFileBytes, files: 1 },
+  });
+
+  function receiveAppFile(req: any, res: Response, next: NextFunction) {
+    appFileUpload.single("file")(req, res, (err: unknown) => {
+      if (err instanceof multer.MulterError && err.code === "LIMIT_FILE_SIZE") {
+        return res.status(413).json({ error: `Files can be at most ${Math.floor(appFileLimits().maxFileBytes / (1024 * 1024))} MB` });
+      }
+      if (err) return res.status(400).json({ error: err instanceof Error ? err.message : "Invalid upload" });
+      next();
+    });
+  }
 
-      res.setHeader("Content-Type", "text/event-stream");
-      res.setHeader("Cache-Control", "no-cache");
-      res.setHeader("Connection", "keep-alive");
+  runtime.post("/api/app-files/:appId", requireAppData("write"), receiveAppFile, async (req: any, res) => {
+    try {
+      const appId = parseInt(req.params.appId);
+      if (!req.file) return res.status(400).json({ error: "file field required" });
+      if (!APP_FILE_MIME_TYPES.includes(req.file.mimetype)) {
+        return res.status(415).json({ error: `Files of type ${req.file.mimetype || "unknown"} cannot be stored` });
+      }
 
-      if (shouldBuildApp) {
-        res.write(`data: ${JSON.stringify({ phase: "building" })}\n\n`);
-        chatMessages.push({
-          role: "user" as const,
-          content: "The user has approved the plan. Now generate the complete app as a single HTML file. Start your response with <!DOCTYPE html> immediately. Do NOT include any text, explanation, or markdown — output ONLY the HTML code.",
-        });
+      // The row goes in first, checked against the quota, so the file store only keeps counted files
+      const fileId = randomUUID();
+      const file = await storage.createAppFile({
+        appId,
+        dataset: res.locals.dataset,
+        fileId,
+        name: String(req.body?.name || req.file.originalname || "file").slice(0, 255),
+        mimeType: req.file.mimetype,
+        size: req.file.size,
+        ownerUserId: res.locals.appUser?.id ?? null,
+      }, appFileLimits());
+      if (!file) return res.status(413).json({ error: "This app's file storage is full" });
+      try {
+        await getFileStore().put(appFileKey(appId, fileId), req.file.buffer);
+      } catch (error) {
+        await storage.deleteAppFile(appId, res.locals.dataset, fileId);
+        throw error;
       }
+      res.status(201).json(toAppFileInfo(file));
+    } catch (error) {
+      console.error("[APPFILES] Upload failed:", error);
+      res.status(500).json({ error: "Failed to upload file" });
+    }
+  });
 
-      const stream = anthropic.messages.stream({
-        model: "claude-sonnet-4-5",
-        max_tokens: shouldBuildApp ? 16384 : 8192,
-        system: systemPrompt,
-        messages: chatMessages,
-      });
+  runtime.get("/api/app-files/:appId", requireAppData("read"), async (req: any, res) => {
+    try {
+      const files = await storage.listAppFiles(parseInt(req.params.appId), res.locals.dataset);
+      res.json(files.map(toAppFileInfo));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to list files" });
+    }
+  });
 
-      let fullResponse = "";
+  runtime.get("/api/app-files/:appId/:fileId", requireAppData("read"), async (req: any, res) => {
+    try {
+      const appId = parseInt(req.params.appId);
+      const file = await storage.getAppFile(appId, res.locals.dataset, req.params.fileId);
+      if (!file) return res.status(404).json({ error: "File not found" });
+      const content = await getFileStore().get(appFileKey(appId, file.fileId));
+      if (!content) return res.status(404).json({ error: "File not found" });
+
+      const inline = file.mimeType.startsWith("image/") || file.mimeType.startsWith("audio/")
+        || file.mimeType.startsWith("video/") || file.mimeType === "application/pdf";
+      res.setHeader("Content-Type", file.mimeType);
+      res.setHeader("Content-Length", file.size);
+      res.setHeader("Content-Disposition", `${inline ? "inline" : "attachment"}; filename*=UTF-8''${encodeURIComponent(file.name)}`);
+      res.setHeader("Cache-Control", "private, max-age=3600");
+      content.on("error", () => res.destroy());
+      content.pipe(res);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to download file" });
+    }
+  });
 
-      for await (const event of stream) {
-        if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
-          const text = event.delta.text;
-          if (text) {
-            fullResponse += text;
-            res.write(`data: ${JSON.stringify({ content: text })}\n\n`);
-          }
-        }
+  // Files an app user uploaded can only be deleted by them (or from the owner's preview)
+  runtime.delete("/api/app-files/:appId/:fileId", requireAppData("write"), async (req: any, res) => {
+    try {
+      const appId = parseInt(req.params.appId);
+      const file = await storage.getAppFile(appId, res.locals.dataset, req.params.fileId);
+      if (!file) return res.status(204).send();
+      const claims = res.locals.appToken as AppTokenClaims;
+      if (file.ownerUserId && claims.mode !== "owner" && res.locals.appUser?.id !== file.ownerUserId) {
+        return denyAppAccess(res);
       }
 
-      await storage.createMessage({ conversationId, role: "assistant", content: fullResponse });
-
-      if (shouldBuildApp) {
-        let htmlContent = extractHtmlFromResponse(fullResponse);
-        console.log(`[BUILD] HTML extraction result: ${htmlContent ? `success (${htmlContent.length} chars)` : "FAILED"}`);
-
-        if (htmlContent && !htmlContent.includes("</html>")) {
-          console.warn("[BUILD] WARNING: Generated HTML appears truncated (missing </html> closing tag). Appending closing tags.");
-          if (!htmlContent.includes("</script>")) {
-            htmlContent += "\n    </script>";
-          }
-          if (!htmlContent.includes("</body>")) {
-            htmlContent += "\n</body>";
-          }
-          htmlContent += "\n</html>";
-        }
+      await storage.deleteAppFile(appId, res.locals.dataset, file.fileId);
+      await getFileStore().delete(appFileKey(appId, file.fileId));
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete file" });
+    }
+  });
 
-        if (htmlContent) {
-          const titleMatch = htmlContent.match(/<title>(.*?)<\/title>/i);
-          const appTitle = titleMatch ? titleMatch[1] : conv.title;
-
-          const app = await storage.createApp({
-            conversationId,
-            title: appTitle,
-            description: conv.title,
-            htmlContent,
-            language: conv.language,
-            userId: req.user.id,
-          });
-
-          await storage.updateConversation(conversationId, { phase: "completed" });
-          res.write(`data: ${JSON.stringify({ appCreated: true, appId: app.id })}\n\n`);
-        } else {
-          console.log(`[BUILD] HTML extraction failed, resetting conversation ${conversationId} to planning phase`);
-          await storage.updateConversation(conversationId, { phase: "planning" });
-        }
-      }
+  // --- App Auth (end users of generated apps, see app-auth.ts) ---
+  async function startAppSession(res: Response, user: AppUser) {
+    const token = newAppSessionToken();
+    await storage.createAppUserSession(user.id, hashSecret(token), new Date(Date.now() + APP_SESSION_TTL_MS));
+    res.json({ user: appUserProfile(user), session: token });
+  }
 
-      res.write(`data: ${JSON.stringify({ done: true })}\n\n`);
-      res.end();
+  runtime.post("/api/app-auth/:appId/sign-up", requireAppData("read"), async (req: any, res) => {
+    try {
+      const parsed = appSignUpSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: fromZodError(parsed.error).message });
+      const { email, password, name } = parsed.data;
+
+      const user = await storage.createAppUser({
+        appId: res.locals.app.id,
+        email,
+        name: name ?? null,
+        passwordHash: await hashPassword(password),
+      });
+      if (!user) return res.status(409).json({ error: "An account with this email already exists" });
+      await startAppSession(res.status(201), user);
     } catch (error) {
-      console.error("Chat error:", error);
-      if (res.headersSent) {
-        res.write(`data: ${JSON.stringify({ error: "Failed to process message" })}\n\n`);
-        res.end();
-      } else {
-        res.status(500).json({ error: "Failed to process message" });
-      }
+      res.status(500).json({ error: "Failed to sign up" });
     }
   });
 
-  // --- Recover apps from messages that contain HTML but were never saved ---
-  app.post("/api/apps/recover", requireAuth, async (req: any, res) => {
+  runtime.post("/api/app-auth/:appId/sign-in", requireAppData("read"), async (req: any, res) => {
     try {
-      const allConvs = await storage.getAllConversations(req.user.id);
-      let recovered = 0;
+      const parsed = appSignInSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: fromZodError(parsed.error).message });
 
-      for (const conv of allConvs) {
-        const existingApps = await db.select().from(generatedApps).where(eq(generatedApps.conversationId, conv.id));
-        if (existingApps.length > 0) continue;
+      const user = await storage.getAppUserByEmail(res.locals.app.id, parsed.data.email);
+      if (!user?.passwordHash || !(await comparePasswords(parsed.data.password, user.passwordHash))) {
+        return res.status(401).json({ error: "Invalid email or password" });
+      }
+      await startAppSession(res, user);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to sign in" });
+    }
+  });
 
-        const msgs = await storage.getMessagesByConversation(conv.id);
-        for (const msg of msgs) {
-          if (msg.role !== "assistant") continue;
-          const html = extractHtmlFromResponse(msg.content);
-          if (html) {
-            const titleMatch = html.match(/<title>(.*?)<\/title>/i);
-            const appTitle = titleMatch ? titleMatch[1] : conv.title;
-            await storage.createApp({
-              conversationId: conv.id,
-              title: appTitle,
-              description: conv.title,
-              htmlContent: html,
-              language: conv.language,
-              userId: req.user.id,
-            });
-            await storage.updateConversation(conv.id, { phase: "completed" });
-            recovered++;
-            break;
-          }
-        }
+  runtime.post("/api/app-auth/:appId/otp", requireAppData("read"), async (req: any, res) => {
+    try {
+      const parsed = appOtpRequestSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: fromZodError(parsed.error).message });
+      if (!canSendOtpCodes()) return res.status(503).json({ error: "Phone sign-in is not set up on this server" });
+
+      const appData = res.locals.app as GeneratedApp;
+      const { phone } = parsed.data;
+      const pending = await storage.getAppUserOtp(appData.id, phone);
+      if (pending && Date.now() - pending.createdAt.getTime() < OTP_RESEND_INTERVAL_MS) {
+        return res.status(429).json({ error: "Please wait before requesting another code" });
       }
 
-      res.json({ recovered, message: `Recovered ${recovered} apps from existing conversations.` });
+      const code = newOtpCode();
+      await storage.saveAppUserOtp(appData.id, phone, hashOtpCode(appData.id, phone, code), new Date(Date.now() + OTP_TTL_MS));
+      try {
+        await sendOtpCode(phone, code, appData);
+      } catch (error) {
+        console.error("[APPAUTH] Failed to send sign-in code:", error);
+        return res.status(502).json({ error: "Could not send the code" });
+      }
+      res.status(204).send();
     } catch (error) {
-      console.error("Recovery error:", error);
-      res.status(500).json({ error: "Failed to recover apps" });
+      res.status(500).json({ error: "Failed to send code" });
     }
   });
 
-  // --- Generated Apps ---
-  app.get("/api/apps", requireAuth, async (req: any, res) => {
+  // A verified phone signs in, creating the app user on first use
+  runtime.post("/api/app-auth/:appId/otp/verify", requireAppData("read"), async (req: any, res) => {
     try {
-      const apps = await storage.getAllApps(req.user.id);
-      res.json(apps);
+      const parsed = appOtpVerifySchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: fromZodError(parsed.error).message });
+
+      const appId = res.locals.app.id as number;
+      const { phone, code, name } = parsed.data;
+      const otp = await storage.getAppUserOtp(appId, phone);
+      if (!otp || otp.expiresAt.getTime() < Date.now() || otp.attempts >= OTP_MAX_ATTEMPTS) {
+        if (otp) await storage.deleteAppUserOtp(otp.id);
+        return res.status(400).json({ error: "The code has expired. Request a new one." });
+      }
+      if (otp.codeHash !== hashOtpCode(appId, phone, code)) {
+        await storage.recordAppUserOtpAttempt(otp.id);
+        return res.status(400).json({ error: "Incorrect code" });
+      }
+      await storage.deleteAppUserOtp(otp.id);
+
+      const user = await storage.getAppUserByPhone(appId, phone)
+        ?? await storage.createAppUser({ appId, phone, name: name ?? null })
+        ?? await storage.getAppUserByPhone(appId, phone);
+      if (!user) return res.status(500).json({ error: "Failed to sign in" });
+      await startAppSession(res, user);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch apps" });
+      res.status(500).json({ error: "Failed to verify code" });
     }
   });
 
-  app.get("/api/apps/:id", requireAuth, async (req: any, res) => {
+  runtime.post("/api/app-auth/:appId/sign-out", requireAppData("read"), async (req: any, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const appData = await storage.getApp(id);
-      if (!appData) return res.status(404).json({ error: "App not found" });
-      if (appData.userId && appData.userId !== req.user.id) return res.status(403).json({ error: "Forbidden" });
-      res.json(appData);
+      const session = readAppSession(req);
+      if (session) await storage.deleteAppUserSession(hashSecret(session));
+      res.status(204).send();
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch app" });
+      res.status(500).json({ error: "Failed to sign out" });
     }
   });
 
-  app.delete("/api/apps/:id", requireAuth, async (req: any, res) => {
+  runtime.get("/api/app-auth/:appId/me", requireAppData("read"), (_req: any, res) => {
+    res.json({ user: res.locals.appUser });
+  });
+
+  // --- App Users (owners manage who signed up to their apps and their roles) ---
+  app.get("/api/apps/:id/users", requireAuth, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
       const appData = await storage.getApp(id);
-      if (appData && appData.userId && appData.userId !== req.user.id) return res.status(403).json({ error: "Forbidden" });
-      await storage.deleteApp(id);
-      res.status(204).send();
+      if (!appData) return res.status(404).json({ error: "App not found" });
+      if (appData.userId && appData.userId !== req.user.id) return res.status(403).json({ error: "Forbidden" });
+      res.json(await storage.listAppUsers(id));
     } catch (error) {
-      res.status(500).json({ error: "Failed to delete app" });
+      res.status(500).json({ error: "Failed to list app users" });
     }
   });
 
-  // --- App Sharing ---
-  app.post("/api/apps/:id/share", requireAuth, async (req: any, res) => {
+  app.patch("/api/apps/:id/users/:userId", requireAuth, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
       const appData = await storage.getApp(id);
       if (!appData) return res.status(404).json({ error: "App not found" });
       if (appData.userId && appData.userId !== req.user.id) return res.status(403).json({ error: "Forbidden" });
 
-      if (appData.shareId) {
-        return res.json({ shareId: appData.shareId });
-      }
-
-      const shareId = randomUUID().slice(0, 8);
-      const updated = await storage.setAppShareId(id, shareId);
-      res.json({ shareId: updated?.shareId });
+      const parsed = appUserRoleSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: fromZodError(parsed.error).message });
+      const user = await storage.setAppUserRole(id, parseInt(req.params.userId), parsed.data.role);
+      if (!user) return res.status(404).json({ error: "App user not found" });
+      res.json(appUserProfile(user));
     } catch (error) {
-      res.status(500).json({ error: "Failed to share app" });
+      res.status(500).json({ error: "Failed to update app user" });
     }
   });
 
-  app.delete("/api/apps/:id/share", requireAuth, async (req: any, res) => {
+  app.delete("/api/apps/:id/users/:userId", requireAuth, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
       const appData = await storage.getApp(id);
       if (!appData) return res.status(404).json({ error: "App not found" });
       if (appData.userId && appData.userId !== req.user.id) return res.status(403).json({ error: "Forbidden" });
 
-      await storage.setAppShareId(id, "");
+      const deleted = await storage.deleteAppUser(id, parseInt(req.params.userId));
+      if (!deleted) return res.status(404).json({ error: "App user not found" });
       res.status(204).send();
     } catch (error) {
-      res.status(500).json({ error: "Failed to unshare app" });
+      res.status(500).json({ error: "Failed to delete app user" });
     }
   });
 
-  app.get("/api/shared/:shareId", async (req, res) => {
-    try {
-      const appData = await storage.getAppByShareId(req.params.shareId);
-      if (!appData) return res.status(404).json({ error: "Shared app not found" });
-      res.json({ id: appData.id, title: appData.title, description: appData.description, language: appData.language });
-    } catch (error) {
-      res.status(500).json({ error: "Failed to fetch shared app" });
-    }
-  });
+  // --- App Data browser (the builder's Data tab; owners read and fix any dataset directly) ---
+  const DATA_BROWSER_PAGE_SIZE = 50;
+
+  function newAppDocId(): string {
+    return Date.now().toString(36) + Math.random().toString(36).substr(2, 9);
+  }
+
+  function readDataset(req: any): string {
+    return typeof req.query.dataset === "string" ? req.query.dataset : "";
+  }
 
-  app.get("/api/shared/:shareId/serve", async (req, res) => {
+  app.get("/api/apps/:id/data", requireAuth, async (req: any, res) => {
     try {
-      const appData = await storage.getAppByShareId(req.params.shareId);
-      if (!appData) return res.status(404).send("Shared app not found");
+      const id = parseInt(req.params.id);
+      const appData = await storage.getApp(id);
+      if (!appData) return res.status(404).json({ error: "App not found" });
+      if (appData.userId && appData.userId !== req.user.id) return res.status(403).json({ error: "Forbidden" });
 
-      const appLang = appData.language || "en-US";
-      const appHelpersScript = `<script>
-(function(){
-  var APP_ID = ${appData.id};
-  var APP_LANG = "${appLang}";
-  var BASE = window.location.origin;
-  window.AppDB = {
-    list: function(c){return fetch(BASE+"/api/app-storage/"+APP_ID+"/"+c).then(function(r){return r.json()})},
-    get: function(c,id){return fetch(BASE+"/api/app-storage/"+APP_ID+"/"+c+"/"+id).then(function(r){return r.json()})},
-    create: function(c,d){return fetch(BASE+"/api/app-storage/"+APP_ID+"/"+c,{method:"POST",headers:{"Content-Type":"application/json"},body:JSON.stringify(d)}).then(function(r){return r.json()})},
-    update: function(c,id,d){return fetch(BASE+"/api/app-storage/"+APP_ID+"/"+c+"/"+id,{method:"PUT",headers:{"Content-Type":"application/json"},body:JSON.stringify(d)}).then(function(r){return r.json()})},
-    remove: function(c,id){return fetch(BASE+"/api/app-storage/"+APP_ID+"/"+c+"/"+id,{method:"DELETE"})},
-    clear: function(c){var url=BASE+"/api/app-storage/"+APP_ID;if(c)url+="/"+c;return fetch(url,{method:"DELETE"})}
-  };
-})();
-</script>`;
-      const htmlWithHelpers = appData.htmlContent.replace("</head>", appHelpersScript + "\n</head>");
-      res.setHeader("Content-Type", "text/html");
-      res.send(htmlWithHelpers);
+      const dataset = readDataset(req);
+      const [datasets, stored] = await Promise.all([storage.listAppDatasets(id), storage.listAppCollections(id, dataset)]);
+      // Declared collections show up even before anything was saved to them
+      const declared = Object.keys(appData.dataSchema?.collections ?? {});
+      const collections = [
+        ...stored.map(({ collection, count }) => ({ name: collection, count, declared: declared.includes(collection) })),
+        ...declared.filter((name) => !stored.some((row) => row.collection === name)).map((name) => ({ name, count: 0, declared: true })),
+      ].sort((a, b) => a.name.localeCompare(b.name));
+      res.json({ datasets: datasets.includes("") ? datasets : ["", ...datasets], collections });
     } catch (error) {
-      res.status(500).send("Failed to serve shared app");
+      res.status(500).json({ error: "Failed to list app data" });
     }
   });
 
-  app.post("/api/shared/:shareId/clone", requireAuth, async (req: any, res) => {
+  app.get("/api/apps/:id/data/:collection", requireAuth, async (req: any, res) => {
     try {
-      const appData = await storage.getAppByShareId(req.params.shareId);
-      if (!appData) return res.status(404).json({ error: "Shared app not found" });
+      const id = parseInt(req.params.id);
+      const appData = await storage.getApp(id);
+      if (!appData) return res.status(404).json({ error: "App not found" });
+      if (appData.userId && appData.userId !== req.user.id) return res.status(403).json({ error: "Forbidden" });
 
-      const clonedApp = await storage.createApp({
-        title: appData.title + " (clone)",
-        description: appData.description,
-        htmlContent: appData.htmlContent,
-        language: appData.language,
-        userId: req.user.id,
+      const parsed = appQuerySchema.safeParse({
+        limit: req.query.limit ? parseInt(req.query.limit) : DATA_BROWSER_PAGE_SIZE,
+        cursor: req.query.cursor,
       });
-      res.status(201).json(clonedApp);
+      if (!parsed.success) return res.status(400).json({ error: fromZodError(parsed.error).message });
+      res.json(await storage.listAppStorage(id, readDataset(req), req.params.collection, parsed.data));
     } catch (error) {
-      res.status(500).json({ error: "Failed to clone app" });
+      res.status(500).json({ error: "Failed to list documents" });
     }
   });
 
-  // --- App Serve (serves HTML from real URL so fetch works in iframe) ---
-  app.get("/api/apps/:id/serve", async (req, res) => {
+  app.put("/api/apps/:id/data/:collection/:docId", requireAuth, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
       const appData = await storage.getApp(id);
-      if (!appData) return res.status(404).send("App not found");
-
-      const appLang = appData.language || "en-US";
-
-      const appHelpersScript = `<script>
-(function(){
-  var APP_ID = ${id};
-  var APP_LANG = "${appLang}";
-  var BASE = '/api/app-storage/' + APP_ID;
-  function _uid(){return Date.now().toString(36)+Math.random().toString(36).substr(2,9);}
-  function _req(method,url,body){
-    var opts={method:method,headers:{'Content-Type':'application/json'}};
-    if(body)opts.body=JSON.stringify(body);
-    return fetch(url,opts).then(function(r){if(!r.ok)throw new Error(r.statusText);return r.status===204?null:r.json();});
-  }
-  window.AppDB = {
-    appId: APP_ID,
-    list: function(collection){return _req('GET',BASE+'/'+encodeURIComponent(collection));},
-    get: function(collection,docId){return _req('GET',BASE+'/'+encodeURIComponent(collection)+'/'+encodeURIComponent(docId));},
-    create: function(collection,data,docId){
-      var d=docId||_uid();
-      return _req('POST',BASE+'/'+encodeURIComponent(collection),{docId:d,data:data});
-    },
-    update: function(collection,docId,data){return _req('PUT',BASE+'/'+encodeURIComponent(collection)+'/'+encodeURIComponent(docId),{data:data});},
-    remove: function(collection,docId){return _req('DELETE',BASE+'/'+encodeURIComponent(collection)+'/'+encodeURIComponent(docId));},
-    clear: function(collection){return _req('DELETE',BASE+'/'+(collection?encodeURIComponent(collection):'_all'));}
-  };
-  function _fileToBase64(file){
-    return new Promise(function(resolve,reject){
-      var reader=new FileReader();
-      reader.onload=function(){
-        var dataUrl=reader.result;
-        var base64=dataUrl.split(',')[1];
-        var mediaType=file.type||'image/jpeg';
-        resolve({base64:base64,mediaType:mediaType});
-      };
-      reader.onerror=reject;
-      reader.readAsDataURL(file);
-    });
-  }
-  window.AppAI = {
-    language: APP_LANG,
-    chat: function(opts){
-      return _req('POST','/api/app-ai/chat',{
-        messages: opts.messages,
-        system: opts.system||undefined,
-        appId: APP_ID,
-        language: APP_LANG
-      }).then(function(r){return r.content;});
-    },
-    ask: function(prompt, imageOrFile){
-      if(!imageOrFile){
-        return window.AppAI.chat({messages:[{role:'user',content:prompt}]});
-      }
-      var p;
-      if(imageOrFile instanceof File || imageOrFile instanceof Blob){
-        p=_fileToBase64(imageOrFile);
-      } else if(typeof imageOrFile==='string'){
-        var mediaType='image/jpeg';
-        var b64=imageOrFile;
-        if(imageOrFile.startsWith('data:')){
-          var parts=imageOrFile.split(',');
-          b64=parts[1];
-          var mMatch=parts[0].match(/data:([^;]+)/);
-          if(mMatch)mediaType=mMatch[1];
-        }
-        p=Promise.resolve({base64:b64,mediaType:mediaType});
-      } else {
-        p=Promise.resolve(imageOrFile);
-      }
-      return p.then(function(img){
-        return window.AppAI.chat({messages:[{role:'user',content:[
-          {type:'image',data:img.base64,mediaType:img.mediaType},
-          {type:'text',text:prompt}
-        ]}]});
-      });
-    },
-    analyzeImage: function(file, prompt){
-      return window.AppAI.ask(prompt||'Analyze this image in detail.',file);
-    }
-  };
-  setTimeout(function(){
-    if(typeof window.showAlert==='undefined'){
-      window.showAlert=function(msg,type){
-        var el=document.getElementById('alertContainer')||document.getElementById('alert');
-        if(!el)return;
-        el.innerHTML='<div style="padding:12px 16px;border-radius:8px;margin-bottom:12px;'+(type==='error'||type==='danger'?'background:#ffebee;color:#c62828;border-left:4px solid #f44336;':'background:#e8f5e9;color:#2e7d32;border-left:4px solid #4caf50;')+'">'+msg+'</div>';
-        if(type!=='error'&&type!=='danger'){setTimeout(function(){if(typeof window.hideAlert==='function')window.hideAlert();else if(el)el.innerHTML='';},3000);}
-      };
-    }
-    if(typeof window.hideAlert==='undefined'){
-      window.hideAlert=function(){
-        var el=document.getElementById('alertContainer')||document.getElementById('alert');
-        if(el)el.innerHTML='';
-      };
-    }
-    if(typeof window.formatDateTime==='undefined'){
-      window.formatDateTime=function(d){
-        if(!(d instanceof Date)||isNaN(d))return '';
-        return d.getDate().toString().padStart(2,'0')+'/'+
-          (d.getMonth()+1).toString().padStart(2,'0')+'/'+
-          d.getFullYear()+' '+
-          d.getHours().toString().padStart(2,'0')+':'+
-          d.getMinutes().toString().padStart(2,'0');
-      };
-    }
-  },0);
-})();
-</script>`;
+      if (!appData) return res.status(404).json({ error: "App not found" });
+      if (appData.userId && appData.userId !== req.user.id) return res.status(403).json({ error: "Forbidden" });
 
-      let html = appData.htmlContent;
-      if (html.includes("<head>")) {
-        html = html.replace("<head>", "<head>" + appHelpersScript);
-      } else if (html.includes("<html")) {
-        html = html.replace(/<html[^>]*>/, "$&" + appHelpersScript);
-      } else {
-        html = appHelpersScript + html;
+      const { collection, docId } = req.params;
+      const { data } = req.body;
+      if (!data || typeof data !== "object" || Array.isArray(data)) return res.status(400).json({ error: "data must be an object" });
+      const validation = validateAppDocument(appData.dataSchema, collection, data);
+      if (!validation.success) return res.status(400).json({ error: validation.error, fields: validation.fields });
+
+      const precondition = appDocPreconditionSchema.safeParse(req.body);
+      if (!precondition.success) return res.status(400).json({ error: fromZodError(precondition.error).message });
+
+      const dataset = readDataset(req);
+      const existing = await storage.getAppStorageDoc(id, dataset, collection, docId);
+      if (!existing) return res.status(404).json({ error: "Document not found" });
+      const change = { docs: 0, bytes: appDocBytes(validation.data) - appDocBytes(appDocData(existing)) };
+      const quotaError = await storageQuotaError(id, [validation.data], change);
+      if (quotaError) return res.status(413).json({ error: quotaError });
+
+      const doc = await storage.updateAppStorageDoc(id, dataset, collection, docId, validation.data, precondition.data);
+      if (!doc) {
+        const changed = hasPrecondition(precondition.data) && await storage.getAppStorageDoc(id, dataset, collection, docId);
+        if (changed) return res.status(409).json({ error: "The app changed this document after you opened it; reload to see the latest version" });
+        return res.status(404).json({ error: "Document not found" });
       }
-
-      res.setHeader("Content-Type", "text/html; charset=utf-8");
-      res.send(html);
+      countAppStorageWrite(id, change);
+      publishAppDataChange(id, dataset, { collection, type: "update", docId, doc, ownerId: doc._ownerId, clientId: null });
+      res.json(doc);
     } catch (error) {
-      res.status(500).send("Failed to serve app");
+      res.status(500).json({ error: "Failed to update document" });
     }
   });
 
-  // --- App Storage API ---
-  app.get("/api/app-storage/:appId/:collection", async (req, res) => {
+  app.delete("/api/apps/:id/data/:collection/:docId", requireAuth, async (req: any, res) => {
     try {
-      const appId = parseInt(req.params.appId);
-      const { collection } = req.params;
-      const docs = await storage.listAppStorage(appId, collection);
-      res.json(docs);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to list documents" });
-    }
-  });
+      const id = parseInt(req.params.id);
+      const appData = await storage.getApp(id);
+      if (!appData) return res.status(404).json({ error: "App not found" });
+      if (appData.userId && appData.userId !== req.user.id) return res.status(403).json({ error: "Forbidden" });
 
-  app.get("/api/app-storage/:appId/:collection/:docId", async (req, res) => {
-    try {
-      const appId = parseInt(req.params.appId);
       const { collection, docId } = req.params;
-      const doc = await storage.getAppStorageDoc(appId, collection, docId);
+      const dataset = readDataset(req);
+      const { doc } = await storage.deleteAppStorageDoc(id, dataset, collection, docId);
       if (!doc) return res.status(404).json({ error: "Document not found" });
-      res.json(doc);
+      countAppStorageWrite(id, { docs: -1, bytes: -appDocBytes(appDocData(doc)) });
+      publishAppDataChange(id, dataset, { collection, type: "delete", docId, doc: null, ownerId: doc._ownerId, clientId: null });
+      res.status(204).send();
     } catch (error) {
-      res.status(500).json({ error: "Failed to get document" });
+      res.status(500).json({ error: "Failed to delete document" });
     }
   });
 
-  app.post("/api/app-storage/:appId/:collection", async (req, res) => {
+  app.delete("/api/apps/:id/data/:collection", requireAuth, async (req: any, res) => {
     try {
-      const appId = parseInt(req.params.appId);
+      const id = parseInt(req.params.id);
+      const appData = await storage.getApp(id);
+      if (!appData) return res.status(404).json({ error: "App not found" });
+      if (appData.userId && appData.userId !== req.user.id) return res.status(403).json({ error: "Forbidden" });
+
       const { collection } = req.params;
-      const { docId, data } = req.body;
-      if (!data) return res.status(400).json({ error: "data field required" });
-      const id = docId || (Date.now().toString(36) + Math.random().toString(36).substr(2, 9));
-      const doc = await storage.createAppStorageDoc(appId, collection, id, data);
-      res.status(201).json(doc);
+      const dataset = readDataset(req);
+      await storage.clearAppStorage(id, dataset, collection);
+      forgetAppStorageUsage(id);
+      publishAppDataChange(id, dataset, { collection, type: "clear", docId: null, doc: null, ownerId: null, clientId: null });
+      res.status(204).send();
     } catch (error) {
-      res.status(500).json({ error: "Failed to create document" });
+      res.status(500).json({ error: "Failed to clear collection" });
     }
   });
 
-  app.put("/api/app-storage/:appId/:collection/:docId", async (req, res) => {
+  // --- App Data import/export (files owners move in from spreadsheets and download again) ---
+  app.get("/api/apps/:id/export", requireAuth, async (req: any, res) => {
     try {
-      const appId = parseInt(req.params.appId);
-      const { collection, docId } = req.params;
-      const { data } = req.body;
-      if (!data) return res.status(400).json({ error: "data field required" });
-      const existing = await storage.getAppStorageDoc(appId, collection, docId);
-      let doc;
-      if (existing) {
-        doc = await storage.updateAppStorageDoc(appId, collection, docId, data);
-      } else {
-        doc = await storage.createAppStorageDoc(appId, collection, docId, data);
-      }
-      res.json(doc);
+      const id = parseInt(req.params.id);
+      const appData = await storage.getApp(id);
+      if (!appData) return res.status(404).json({ error: "App not found" });
+      if (appData.userId && appData.userId !== req.user.id) return res.status(403).json({ error: "Forbidden" });
+
+      const format = appExportFormatSchema.safeParse(req.query.format ?? "csv");
+      if (!format.success) return res.status(400).json({ error: fromZodError(format.error).message });
+      const collection = typeof req.query.collection === "string" && req.query.collection ? req.query.collection : undefined;
+
+      const docs = await storage.exportAppStorage(id, readDataset(req), collection);
+      const exported = exportAppData(format.data, appData.dataSchema, docs, !collection);
+      const name = appData.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "app";
+      res.setHeader("Content-Type", exported.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${name}-${collection ? encodeURIComponent(collection) : "data"}.${exported.extension}"`);
+      res.send(exported.body);
     } catch (error) {
-      res.status(500).json({ error: "Failed to update document" });
+      res.status(500).json({ error: "Failed to export app data" });
     }
   });
 
-  app.delete("/api/app-storage/:appId/:collection/:docId", async (req, res) => {
+  // With dryRun nothing is written: the answer previews what the import would do
+  app.post("/api/apps/:id/import", requireAuth, async (req: any, res) => {
     try {
-      const appId = parseInt(req.params.appId);
-      const { collection, docId } = req.params;
-      if (docId === "_all") {
-        await storage.clearAppStorage(appId, collection === "_all" ? undefined : collection);
-      } else {
-        await storage.deleteAppStorageDoc(appId, collection, docId);
+      const id = parseInt(req.params.id);
+      const appData = await storage.getApp(id);
+      if (!appData) return res.status(404).json({ error: "App not found" });
+      if (appData.userId && appData.userId !== req.user.id) return res.status(403).json({ error: "Forbidden" });
+
+      const parsed = appImportSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: fromZodError(parsed.error).message });
+      const { collection, dataset, csv, mapping, dryRun } = parsed.data;
+
+      const plan = planAppImport(appData.dataSchema, collection, csv, mapping);
+      if (!plan.success) return res.status(400).json({ error: plan.error });
+      // Rows with an id may replace documents, but are counted as new: the quota check errs on the safe side
+      const docs = plan.docs.map(({ data }) => data);
+      const quotaError = await storageQuotaError(id, docs, { docs: docs.length, bytes: docs.reduce((sum, data) => sum + appDocBytes(data), 0) });
+      if (quotaError) return res.status(413).json({ error: quotaError });
+
+      let imported = 0;
+      if (!dryRun && plan.docs.length > 0) {
+        imported = await storage.importAppStorageDocs(id, dataset, collection, plan.docs.map(({ docId, data }) => ({ docId: docId ?? newAppDocId(), data })));
+        forgetAppStorageUsage(id);
+        publishAppDataChange(id, dataset, { collection, type: "import", docId: null, doc: null, ownerId: null, clientId: null });
+        console.log(`[APPDB] Imported ${imported} documents into "${collection}" of app ${id}`);
       }
-      res.status(204).send();
+      res.json({
+        dryRun,
+        total: plan.total,
+        valid: plan.docs.length,
+        imported,
+        // Enough to fix the file; errorCount says how many there are in all
+        errors: plan.errors.slice(0, 100),
+        errorCount: plan.errors.length,
+        preview: plan.docs.slice(0, 5).map(({ row, docId, data }) => ({ row, id: docId ?? null, data })),
+      });
     } catch (error) {
-      res.status(500).json({ error: "Failed to delete document" });
+      res.status(500).json({ error: "Failed to import data" });
     }
   });
 
@@ -788,9 +2211,10 @@ export async function registerRoutes(
     return `You are a helpful AI assistant embedded in a web application. Be concise and helpful. IMPORTANT: You MUST respond entirely in ${langName} (${langCode}). All your text output must be in ${langName}. Do not respond in English unless the user explicitly writes in English.`;
   }
 
-  app.post("/api/app-ai/chat", async (req, res) => {
+  runtime.post("/api/app-ai/chat", requireAppToken("read"), async (req, res) => {
     try {
-      const { messages, system, appId, language } = req.body;
+      const { messages, system, language } = req.body;
+      const { appId } = res.locals.appToken as AppTokenClaims;
       if (!messages || !Array.isArray(messages) || messages.length === 0) {
         return res.status(400).json({ error: "messages array required" });
       }
@@ -802,24 +2226,16 @@ export async function registerRoutes(
         return res.status(400).json({ error: "Too many messages (max 20)" });
       }
 
-      // Verify app exists if appId provided
-      if (appId) {
-        const id = parseInt(String(appId));
-        if (!isNaN(id)) {
-          const appExists = await storage.getApp(id);
-          if (!appExists) {
-            console.warn(`App AI proxy: App ${id} not found`);
-          }
-        }
-      }
+      const appExists = await storage.getApp(appId);
+      if (!appExists) return res.status(404).json({ error: "App not found" });
 
-      const anthropicMessages: any[] = messages.map((msg: any) => {
+      const llmMessages: LlmMessage[] = messages.map((msg: any): LlmMessage => {
         if (msg.role !== "user" && msg.role !== "assistant") {
           return { role: "user", content: String(msg.content || "").substring(0, 10000) };
         }
 
         if (msg.role === "user" && Array.isArray(msg.content)) {
-          const contentParts: any[] = [];
+          const contentParts: LlmContentPart[] = [];
           for (const part of msg.content) {
             if (part.type === "text") {
               contentParts.push({ type: "text", text: String(part.text || "").substring(0, 10000) });
@@ -835,14 +2251,7 @@ export async function registerRoutes(
               if (base64Data.length === 0) {
                 throw new Error("Empty image data");
               }
-              contentParts.push({
-                type: "image",
-                source: {
-                  type: "base64",
-                  media_type: mediaType,
-                  data: base64Data,
-                },
-              });
+              contentParts.push({ type: "image", mediaType, data: base64Data });
             }
           }
           return { role: "user", content: contentParts };
@@ -851,23 +2260,19 @@ export async function registerRoutes(
         return { role: msg.role, content: String(msg.content || "").substring(0, 10000) };
       });
 
-      const response = await anthropic.messages.create({
-        model: "claude-sonnet-4-5",
-        max_tokens: 4096,
+      const { model, maxTokens } = phaseConfig("appAi");
+      const response = await getLlmProvider().chat({
+        model,
+        maxTokens,
         system: system ? String(system) : _buildAppAISystemPrompt(appLanguage),
-        messages: anthropicMessages,
+        messages: llmMessages,
       });
 
-      const textContent = response.content
-        .filter((block: any) => block.type === "text")
-        .map((block: any) => block.text)
-        .join("");
-
       res.json({
-        content: textContent,
+        content: response.text,
         usage: {
-          input_tokens: response.usage.input_tokens,
-          output_tokens: response.usage.output_tokens,
+          input_tokens: response.usage.inputTokens,
+          output_tokens: response.usage.outputTokens,
         },
       });
     } catch (error: any) {
@@ -1026,11 +2431,7 @@ export async function registerRoutes(
 
     const ttsText = text.substring(0, 3000);
 
-    // Set up SSE response
-    res.setHeader("Content-Type", "text/event-stream");
-    res.setHeader("Cache-Control", "no-cache");
-    res.setHeader("Connection", "keep-alive");
-    res.setHeader("X-Accel-Buffering", "no");
+    const stream = openEventStream<TtsEventMap>(res);
 
     let wsCleanedUp = false;
     const cleanup = (ws: WebSocket) => {
@@ -1050,10 +2451,10 @@ export async function registerRoutes(
       // Timeout: close if no response after 30s
       const timeout = setTimeout(() => {
         console.error("Sarvam streaming TTS: timeout");
-        res.write(`data: ${JSON.stringify({ error: "Streaming TTS timeout" })}\n\n`);
-        res.write(`data: ${JSON.stringify({ done: true })}\n\n`);
+        stream.send({ event: "error", data: { message: "Streaming TTS timeout" } });
+        stream.send({ event: "done", data: {} });
         cleanup(ws);
-        res.end();
+        stream.end();
       }, 30000);
 
       // Track if client disconnects
@@ -1093,25 +2494,25 @@ export async function registerRoutes(
 
           if (msg.type === "audio" && msg.data?.audio) {
             // Forward audio chunk as SSE
-            res.write(`data: ${JSON.stringify({
-              audio: msg.data.audio,
-              contentType: msg.data.content_type || "audio/mp3",
-            })}\n\n`);
+            stream.send({
+              event: "audio",
+              data: { audio: msg.data.audio, contentType: msg.data.content_type || "audio/mp3" },
+            });
           } else if (msg.type === "event") {
             console.log("Sarvam streaming TTS: event", msg.data?.event_type);
             if (msg.data?.event_type === "final") {
               clearTimeout(timeout);
-              res.write(`data: ${JSON.stringify({ done: true })}\n\n`);
+              stream.send({ event: "done", data: {} });
               cleanup(ws);
-              res.end();
+              stream.end();
             }
           } else if (msg.type === "error") {
             console.error("Sarvam streaming TTS: error message", msg.data);
             clearTimeout(timeout);
-            res.write(`data: ${JSON.stringify({ error: msg.data?.message || "Streaming TTS error" })}\n\n`);
-            res.write(`data: ${JSON.stringify({ done: true })}\n\n`);
+            stream.send({ event: "error", data: { message: msg.data?.message || "Streaming TTS error" } });
+            stream.send({ event: "done", data: {} });
             cleanup(ws);
-            res.end();
+            stream.end();
           }
         } catch (parseErr) {
           console.error("Sarvam streaming TTS: parse error", parseErr);
@@ -1121,30 +2522,22 @@ export async function registerRoutes(
       ws.on("error", (err) => {
         console.error("Sarvam streaming TTS: WebSocket error", err.message);
         clearTimeout(timeout);
-        if (!res.writableEnded) {
-          res.write(`data: ${JSON.stringify({ error: "WebSocket error: " + err.message })}\n\n`);
-          res.write(`data: ${JSON.stringify({ done: true })}\n\n`);
-          res.end();
-        }
+        stream.send({ event: "error", data: { message: "WebSocket error: " + err.message } });
+        stream.send({ event: "done", data: {} });
+        stream.end();
       });
 
       ws.on("close", () => {
         clearTimeout(timeout);
-        if (!res.writableEnded) {
-          res.write(`data: ${JSON.stringify({ done: true })}\n\n`);
-          res.end();
-        }
+        stream.send({ event: "done", data: {} });
+        stream.end();
       });
 
     } catch (error: any) {
       console.error("Sarvam streaming TTS error:", error.message || error);
-      if (!res.headersSent) {
-        res.status(500).json({ error: "TTS stream failed: " + (error.message || "Unknown error") });
-      } else if (!res.writableEnded) {
-        res.write(`data: ${JSON.stringify({ error: "Stream failed" })}\n\n`);
-        res.write(`data: ${JSON.stringify({ done: true })}\n\n`);
-        res.end();
-      }
+      stream.send({ event: "error", data: { message: "Stream failed" } });
+      stream.send({ event: "done", data: {} });
+      stream.end();
     }
   });
 
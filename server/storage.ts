@@ -4,16 +4,86 @@ import {
   type Conversation, type InsertConversation,
   type Message, type InsertMessage,
   type GeneratedApp, type InsertGeneratedApp,
-  users, conversations, messages, generatedApps, appStorage,
+  type AppRevision, type AppRevisionSummary, type AppRevisionMeta,
+  type BuildJob, type InsertBuildJob, type BuildJobSummary,
+  type AppDataMode, type AppQuery, type AppAggregate, type AppDocPrecondition, type AppStorageIndex, type InsertAppStorageIndex,
+  type AppUser, type InsertAppUser, type AppUserProfile, type AppUserOtp, type AppFile, type InsertAppFile,
+  decodeAppQueryCursor, encodeAppQueryCursor,
+  users, conversations, messages, generatedApps, appRevisions, buildJobs, appStorage, appStorageChanges, appStorageIndexes,
+  appUsers, appUserSessions, appUserOtps, appFiles,
 } from "@shared/schema";
-import { eq, desc, and, sql } from "drizzle-orm";
+import { eq, desc, and, or, gt, inArray, sql } from "drizzle-orm";
 import { randomUUID } from "crypto";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
+import { appAggregateStatement, appQueryAfter, appQueryDocument, appQueryOrder, appQueryPosition, appQueryWhere, appStorageIndexDdl } from "./app-query";
+import { planDataMigration, type DataMigrationStep } from "./app-data-schema";
+import type { AppSyncCursor } from "./app-sync";
+import type { AppStorageUsage } from "./app-quotas";
+import type { AppFileLimits } from "./app-files";
+import { appDocKey, type AppBatchFailure, type AppBatchOutcome, type AppBatchPlan, type AppDocKey } from "./app-batch";
 
 const PostgresSessionStore = connectPg(session);
 
+export type AppRevisionContent = Pick<GeneratedApp, "title" | "htmlContent" | "files" | "dataSchema">;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface AppStoragePage {
+  docs: any[];
+  /** Pass as the next query's cursor; null on the last page. */
+  nextCursor: string | null;
+}
+
+export interface AppDocDeletion {
+  /** The document as it was before it was deleted; null when nothing was deleted. */
+  doc: any | null;
+  /** The caller may not delete this owner's document, so nothing was deleted. */
+  denied: boolean;
+}
+
+export interface AppSyncChange {
+  collection: string;
+  docId: string;
+  ownerUserId: number | null;
+  /** The document as it is now; null when it was deleted. */
+  doc: any | null;
+}
+
+export interface AppSyncPage {
+  changes: AppSyncChange[];
+  cursor: AppSyncCursor;
+  hasMore: boolean;
+  /** Set on the first page of a snapshot: whatever the client cached before is stale. */
+  reset: boolean;
+}
+
+/** What one app keeps in AppDB and AppFiles, for the account usage page. */
+export interface AppUsageSummary {
+  appId: number;
+  title: string;
+  docs: number;
+  bytes: number;
+  files: number;
+  fileBytes: number;
+}
+
+// Apps built before revision history existed have no rows yet; this snapshots their current state.
+function baselineRevision(app: GeneratedApp) {
+  return {
+    appId: app.id,
+    revision: app.revision,
+    title: app.title,
+    htmlContent: app.htmlContent,
+    files: app.files,
+    dataSchema: app.dataSchema,
+    source: "build",
+    authorId: app.userId,
+    createdAt: app.updatedAt,
+  };
+}
+
 export interface IStorage {
   sessionStore: session.Store;
 
@@ -32,17 +102,167 @@ export interface IStorage {
 
   getApp(id: number): Promise<GeneratedApp | undefined>;
   getAppByShareId(shareId: string): Promise<GeneratedApp | undefined>;
+  getAppByConversation(conversationId: number): Promise<GeneratedApp | undefined>;
   getAllApps(userId?: string): Promise<GeneratedApp[]>;
-  createApp(data: InsertGeneratedApp): Promise<GeneratedApp>;
+  createApp(data: InsertGeneratedApp, meta?: AppRevisionMeta): Promise<GeneratedApp>;
+  updateApp(id: number, data: Partial<InsertGeneratedApp>): Promise<GeneratedApp | undefined>;
   deleteApp(id: number): Promise<void>;
   setAppShareId(id: number, shareId: string): Promise<GeneratedApp | undefined>;
+  setAppDataMode(id: number, dataMode: AppDataMode): Promise<GeneratedApp | undefined>;
+
+  getAppRevisions(appId: number): Promise<AppRevisionSummary[]>;
+  getAppRevision(appId: number, revision: number): Promise<AppRevision | undefined>;
+  ensureAppRevision(app: GeneratedApp): Promise<void>;
+  commitAppRevision(id: number, data: AppRevisionContent, meta: AppRevisionMeta): Promise<GeneratedApp | undefined>;
+
+  getBuildJob(id: number): Promise<BuildJob | undefined>;
+  getActiveBuildJob(conversationId: number): Promise<BuildJobSummary | undefined>;
+  createBuildJob(data: InsertBuildJob): Promise<BuildJob>;
+  updateBuildJob(id: number, data: Partial<InsertBuildJob>): Promise<BuildJob | undefined>;
+
+  listAppStorage(appId: number, dataset: string, collection: string, query?: AppQuery, ownerUserId?: number): Promise<AppStoragePage>;
+  getAppStorageDoc(appId: number, dataset: string, collection: string, docId: string): Promise<any | undefined>;
+  aggregateAppStorage(appId: number, dataset: string, collection: string, aggregate: AppAggregate, ownerUserId?: number): Promise<Record<string, unknown>[]>;
+  createAppStorageDoc(appId: number, dataset: string, collection: string, docId: string, data: any, ownerUserId?: number): Promise<any | undefined>;
+  updateAppStorageDoc(appId: number, dataset: string, collection: string, docId: string, data: any, precondition?: AppDocPrecondition): Promise<any | undefined>;
+  upsertAppStorageDoc(appId: number, dataset: string, collection: string, docId: string, data: any, ownerUserId?: number): Promise<any>;
+  deleteAppStorageDoc(appId: number, dataset: string, collection: string, docId: string, precondition?: AppDocPrecondition, allowed?: (ownerUserId: number | null) => boolean): Promise<AppDocDeletion>;
+  batchAppStorage(appId: number, dataset: string, keys: AppDocKey[], plan: (current: Map<string, any>) => AppBatchPlan): Promise<AppBatchOutcome>;
+  clearAppStorage(appId: number, dataset: string, collection?: string): Promise<void>;
+  syncAppStorage(appId: number, dataset: string, cursor: AppSyncCursor | null, limit: number): Promise<AppSyncPage>;
+  listAppDatasets(appId: number): Promise<string[]>;
+  listAppCollections(appId: number, dataset: string): Promise<{ collection: string; count: number }[]>;
+  exportAppStorage(appId: number, dataset: string, collection?: string): Promise<{ collection: string; doc: any }[]>;
+  importAppStorageDocs(appId: number, dataset: string, collection: string, docs: { docId: string; data: any }[]): Promise<number>;
+  listAppStorageIndexes(appId: number): Promise<AppStorageIndex[]>;
+  createAppStorageIndex(appId: number, data: InsertAppStorageIndex): Promise<AppStorageIndex | undefined>;
+  deleteAppStorageIndex(appId: number, indexId: number): Promise<boolean>;
+  ensureAppStorageIndexes(): Promise<void>;
+
+  listAppUsers(appId: number): Promise<AppUserProfile[]>;
+  getAppUserByEmail(appId: number, email: string): Promise<AppUser | undefined>;
+  getAppUserByPhone(appId: number, phone: string): Promise<AppUser | undefined>;
+  createAppUser(data: InsertAppUser): Promise<AppUser | undefined>;
+  setAppUserRole(appId: number, appUserId: number, role: string): Promise<AppUser | undefined>;
+  deleteAppUser(appId: number, appUserId: number): Promise<boolean>;
+  createAppUserSession(appUserId: number, tokenHash: string, expiresAt: Date): Promise<void>;
+  getAppUserBySession(appId: number, tokenHash: string): Promise<AppUser | undefined>;
+  deleteAppUserSession(tokenHash: string): Promise<void>;
+  saveAppUserOtp(appId: number, phone: string, codeHash: string, expiresAt: Date): Promise<void>;
+  getAppUserOtp(appId: number, phone: string): Promise<AppUserOtp | undefined>;
+  recordAppUserOtpAttempt(id: number): Promise<void>;
+  deleteAppUserOtp(id: number): Promise<void>;
+
+  listAppFiles(appId: number, dataset: string): Promise<AppFile[]>;
+  getAppFile(appId: number, dataset: string, fileId: string): Promise<AppFile | undefined>;
+  createAppFile(data: InsertAppFile, limits: AppFileLimits): Promise<AppFile | undefined>;
+  deleteAppFile(appId: number, dataset: string, fileId: string): Promise<AppFile | undefined>;
+  getAppStorageUsage(appId: number): Promise<AppStorageUsage>;
+  getUserAppUsage(userId: string): Promise<AppUsageSummary[]>;
+}
+
+// Conflict target matching app_storage_doc_idx
+const APP_DOC_KEY = [appStorage.appId, appStorage.dataset, appStorage.collection, appStorage.docId];
+
+function collectionWhere(appId: number, dataset: string, collection: string) {
+  return and(eq(appStorage.appId, appId), eq(appStorage.dataset, dataset), eq(appStorage.collection, collection));
+}
 
-  listAppStorage(appId: number, collection: string): Promise<any[]>;
-  getAppStorageDoc(appId: number, collection: string, docId: string): Promise<any | undefined>;
-  createAppStorageDoc(appId: number, collection: string, docId: string, data: any): Promise<any>;
-  updateAppStorageDoc(appId: number, collection: string, docId: string, data: any): Promise<any | undefined>;
-  deleteAppStorageDoc(appId: number, collection: string, docId: string): Promise<void>;
-  clearAppStorage(appId: number, collection?: string): Promise<void>;
+function toAppDoc(row: Pick<typeof appStorage.$inferSelect, "docId" | "data" | "ownerUserId" | "createdAt" | "updatedAt" | "version">) {
+  // Stored data may hold fields named like the built-ins; the row's own values win
+  return { ...row.data, id: row.docId, _ownerId: row.ownerUserId, _createdAt: row.createdAt, _updatedAt: row.updatedAt, _version: row.version };
+}
+
+// What every write of a document sets besides its data
+const touched = { updatedAt: sql`CURRENT_TIMESTAMP`, version: sql`${appStorage.version} + 1` };
+
+type AppStorageKey = Pick<typeof appStorage.$inferSelect, "dataset" | "collection" | "docId" | "ownerUserId">;
+
+const appStorageKeyColumns = {
+  dataset: appStorage.dataset,
+  collection: appStorage.collection,
+  docId: appStorage.docId,
+  ownerUserId: appStorage.ownerUserId,
+};
+
+/** Appends written (or deleted) documents to app_storage_changes, the log offline clients sync from. */
+async function logAppStorageChanges(executor: typeof db | Transaction, appId: number, rows: AppStorageKey[], deleted = false): Promise<void> {
+  if (rows.length === 0) return;
+  await executor.insert(appStorageChanges).values(rows.map((row) => ({ appId, ...row, deleted })));
+}
+
+/** Matches documents nobody has written since the client read them (timestamps travel with millisecond precision). */
+function unchangedSince({ ifVersion, ifUpdatedAt }: AppDocPrecondition) {
+  return and(
+    ifVersion !== undefined ? eq(appStorage.version, ifVersion) : undefined,
+    ifUpdatedAt !== undefined
+      ? sql`date_trunc('milliseconds', ${appStorage.updatedAt}) <= ${new Date(ifUpdatedAt).toISOString()}::timestamp`
+      : undefined,
+  );
+}
+
+/** Across all datasets: quotas are per app. */
+async function appFileUsage(executor: Transaction, appId: number): Promise<{ files: number; bytes: number }> {
+  const [usage] = await executor.select({
+    files: sql<number>`count(*)::int`,
+    bytes: sql<number>`coalesce(sum(${appFiles.size}), 0)::bigint`.mapWith(Number),
+  }).from(appFiles).where(eq(appFiles.appId, appId));
+  return usage;
+}
+
+const appUserProfileColumns = {
+  id: appUsers.id,
+  appId: appUsers.appId,
+  email: appUsers.email,
+  phone: appUsers.phone,
+  name: appUsers.name,
+  role: appUsers.role,
+  createdAt: appUsers.createdAt,
+};
+
+/** Applies a schema change to an app's saved documents (every dataset), inside the revision's transaction. */
+async function migrateAppStorage(tx: Transaction, appId: number, steps: DataMigrationStep[]): Promise<void> {
+  for (const step of steps) {
+    let rows: AppStorageKey[];
+    if (step.kind === "renameCollection") {
+      // Documents whose id is already taken in the new collection stay where they are
+      rows = await tx.update(appStorage)
+        .set({ collection: step.to, ...touched })
+        .where(and(
+          eq(appStorage.appId, appId),
+          eq(appStorage.collection, step.from),
+          sql`not exists (select 1 from app_storage taken where taken.app_id = ${appId} and taken.dataset = app_storage.dataset and taken.collection = ${step.to} and taken.doc_id = app_storage.doc_id)`,
+        ))
+        .returning(appStorageKeyColumns);
+      await logAppStorageChanges(tx, appId, rows.map((row) => ({ ...row, collection: step.from })), true);
+    } else if (step.kind === "renameField") {
+      rows = await tx.update(appStorage)
+        .set({
+          data: sql`(${appStorage.data} - ${step.from}::text) || jsonb_build_object(${step.to}::text, ${appStorage.data} -> ${step.from}::text)`,
+          ...touched,
+        })
+        .where(and(
+          eq(appStorage.appId, appId),
+          eq(appStorage.collection, step.collection),
+          sql`${appStorage.data} ? ${step.from}::text and not ${appStorage.data} ? ${step.to}::text`,
+        ))
+        .returning(appStorageKeyColumns);
+    } else {
+      rows = await tx.update(appStorage)
+        .set({
+          data: sql`${appStorage.data} || jsonb_build_object(${step.field}::text, ${JSON.stringify(step.value)}::jsonb)`,
+          ...touched,
+        })
+        .where(and(
+          eq(appStorage.appId, appId),
+          eq(appStorage.collection, step.collection),
+          sql`not ${appStorage.data} ? ${step.field}::text`,
+        ))
+        .returning(appStorageKeyColumns);
+    }
+    await logAppStorageChanges(tx, appId, rows);
+    if (rows.length) console.log(`[APPDB] Migrated ${rows.length} documents of app ${appId}: ${JSON.stringify(step)}`);
+  }
 }
 
 export class DatabaseStorage implements IStorage {
@@ -115,6 +335,14 @@ export class DatabaseStorage implements IStorage {
     return app;
   }
 
+  async getAppByConversation(conversationId: number): Promise<GeneratedApp | undefined> {
+    const [app] = await db.select().from(generatedApps)
+      .where(eq(generatedApps.conversationId, conversationId))
+      .orderBy(desc(generatedApps.createdAt))
+      .limit(1);
+    return app;
+  }
+
   async getAllApps(userId?: string): Promise<GeneratedApp[]> {
     if (userId) {
       return db.select().from(generatedApps)
@@ -124,12 +352,35 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(generatedApps).orderBy(desc(generatedApps.createdAt));
   }
 
-  async createApp(data: InsertGeneratedApp): Promise<GeneratedApp> {
-    const [app] = await db.insert(generatedApps).values(data).returning();
+  async createApp(data: InsertGeneratedApp, meta: AppRevisionMeta = { source: "build" }): Promise<GeneratedApp> {
+    return db.transaction(async (tx) => {
+      const [app] = await tx.insert(generatedApps).values(data).returning();
+      await tx.insert(appRevisions).values({
+        appId: app.id,
+        revision: app.revision,
+        title: app.title,
+        htmlContent: app.htmlContent,
+        files: app.files,
+        dataSchema: app.dataSchema,
+        authorId: app.userId,
+        ...meta,
+      });
+      return app;
+    });
+  }
+
+  async updateApp(id: number, data: Partial<InsertGeneratedApp>): Promise<GeneratedApp | undefined> {
+    const [app] = await db.update(generatedApps)
+      .set({ ...data, updatedAt: sql`CURRENT_TIMESTAMP` })
+      .where(eq(generatedApps.id, id))
+      .returning();
     return app;
   }
 
   async deleteApp(id: number): Promise<void> {
+    for (const index of await this.listAppStorageIndexes(id)) {
+      await db.execute(appStorageIndexDdl(index).drop);
+    }
     await db.delete(appStorage).where(eq(appStorage.appId, id));
     await db.delete(generatedApps).where(eq(generatedApps.id, id));
   }
@@ -142,52 +393,568 @@ export class DatabaseStorage implements IStorage {
     return app;
   }
 
-  async listAppStorage(appId: number, collection: string): Promise<any[]> {
-    const rows = await db.select().from(appStorage)
-      .where(and(eq(appStorage.appId, appId), eq(appStorage.collection, collection)))
-      .orderBy(desc(appStorage.createdAt));
-    return rows.map(r => ({ id: r.docId, ...JSON.parse(r.data), _createdAt: r.createdAt, _updatedAt: r.updatedAt }));
+  async setAppDataMode(id: number, dataMode: AppDataMode): Promise<GeneratedApp | undefined> {
+    const [app] = await db.update(generatedApps)
+      .set({ dataMode })
+      .where(eq(generatedApps.id, id))
+      .returning();
+    return app;
+  }
+
+  async getAppRevisions(appId: number): Promise<AppRevisionSummary[]> {
+    return db.select({
+      id: appRevisions.id,
+      appId: appRevisions.appId,
+      revision: appRevisions.revision,
+      title: appRevisions.title,
+      source: appRevisions.source,
+      messageId: appRevisions.messageId,
+      authorId: appRevisions.authorId,
+      restoredFrom: appRevisions.restoredFrom,
+      createdAt: appRevisions.createdAt,
+    }).from(appRevisions)
+      .where(eq(appRevisions.appId, appId))
+      .orderBy(desc(appRevisions.revision));
+  }
+
+  async getAppRevision(appId: number, revision: number): Promise<AppRevision | undefined> {
+    const [row] = await db.select().from(appRevisions)
+      .where(and(eq(appRevisions.appId, appId), eq(appRevisions.revision, revision)));
+    return row;
+  }
+
+  async ensureAppRevision(app: GeneratedApp): Promise<void> {
+    await db.insert(appRevisions).values(baselineRevision(app)).onConflictDoNothing();
+  }
+
+  async commitAppRevision(id: number, data: AppRevisionContent, meta: AppRevisionMeta): Promise<GeneratedApp | undefined> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(generatedApps).where(eq(generatedApps.id, id)).for("update");
+      if (!current) return undefined;
+
+      await tx.insert(appRevisions).values(baselineRevision(current)).onConflictDoNothing();
+
+      const [app] = await tx.update(generatedApps)
+        .set({ ...data, revision: current.revision + 1, updatedAt: sql`CURRENT_TIMESTAMP` })
+        .where(eq(generatedApps.id, id))
+        .returning();
+      await tx.insert(appRevisions).values({
+        appId: app.id,
+        revision: app.revision,
+        title: app.title,
+        htmlContent: app.htmlContent,
+        files: app.files,
+        dataSchema: app.dataSchema,
+        ...meta,
+      });
+      await migrateAppStorage(tx, id, planDataMigration(current.dataSchema, app.dataSchema));
+      return app;
+    });
   }
 
-  async getAppStorageDoc(appId: number, collection: string, docId: string): Promise<any | undefined> {
+  async getBuildJob(id: number): Promise<BuildJob | undefined> {
+    const [job] = await db.select().from(buildJobs).where(eq(buildJobs.id, id));
+    return job;
+  }
+
+  async getActiveBuildJob(conversationId: number): Promise<BuildJobSummary | undefined> {
+    const [job] = await db.select({
+      id: buildJobs.id,
+      conversationId: buildJobs.conversationId,
+      userId: buildJobs.userId,
+      status: buildJobs.status,
+      progress: buildJobs.progress,
+      appId: buildJobs.appId,
+      error: buildJobs.error,
+      createdAt: buildJobs.createdAt,
+      updatedAt: buildJobs.updatedAt,
+    }).from(buildJobs)
+      .where(and(eq(buildJobs.conversationId, conversationId), eq(buildJobs.status, "running")))
+      .orderBy(desc(buildJobs.createdAt))
+      .limit(1);
+    return job;
+  }
+
+  async createBuildJob(data: InsertBuildJob): Promise<BuildJob> {
+    const [job] = await db.insert(buildJobs).values(data).returning();
+    return job;
+  }
+
+  async updateBuildJob(id: number, data: Partial<InsertBuildJob>): Promise<BuildJob | undefined> {
+    const [job] = await db.update(buildJobs)
+      .set({ ...data, updatedAt: sql`CURRENT_TIMESTAMP` })
+      .where(eq(buildJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  /** With ownerUserId, only that app user's documents are listed. The cursor must have passed appQuerySchema. */
+  async listAppStorage(appId: number, dataset: string, collection: string, query: AppQuery = {}, ownerUserId?: number): Promise<AppStoragePage> {
+    const cursor = query.cursor ? decodeAppQueryCursor(query.cursor) : null;
+    let after = cursor?.after;
+    if (cursor && !after) {
+      const [row] = await db.select({ position: appQueryPosition(query.orderBy) }).from(appStorage)
+        .where(and(collectionWhere(appId, dataset, collection), eq(appStorage.docId, cursor.doc)));
+      // The page ended on a document that is gone since; there is no telling where the next one starts
+      if (!row) return { docs: [], nextCursor: null };
+      after = row.position;
+    }
+
+    let statement = db.select({
+      docId: appStorage.docId,
+      data: appQueryDocument(query.select),
+      createdAt: appStorage.createdAt,
+      ownerUserId: appStorage.ownerUserId,
+      updatedAt: appStorage.updatedAt,
+      version: appStorage.version,
+      position: appQueryPosition(query.orderBy),
+    }).from(appStorage)
+      .where(and(
+        collectionWhere(appId, dataset, collection),
+        ownerUserId !== undefined ? eq(appStorage.ownerUserId, ownerUserId) : undefined,
+        appQueryWhere(query.where),
+        after ? appQueryAfter(query.orderBy, after) : undefined,
+      ))
+      .orderBy(...appQueryOrder(query.orderBy))
+      .$dynamic();
+    // One extra row tells us whether there is another page
+    if (query.limit) statement = statement.limit(query.limit + 1);
+
+    const rows = await statement;
+    const hasMore = !!query.limit && rows.length > query.limit;
+    const page = hasMore ? rows.slice(0, query.limit) : rows;
+    const last = page[page.length - 1];
+    return {
+      docs: page.map(toAppDoc),
+      nextCursor: hasMore ? encodeAppQueryCursor({ after: last.position, doc: last.docId }) : null,
+    };
+  }
+
+  async getAppStorageDoc(appId: number, dataset: string, collection: string, docId: string): Promise<any | undefined> {
     const [row] = await db.select().from(appStorage)
-      .where(and(eq(appStorage.appId, appId), eq(appStorage.collection, collection), eq(appStorage.docId, docId)));
-    if (!row) return undefined;
-    return { id: row.docId, ...JSON.parse(row.data), _createdAt: row.createdAt, _updatedAt: row.updatedAt };
+      .where(and(collectionWhere(appId, dataset, collection), eq(appStorage.docId, docId)));
+    return row ? toAppDoc(row) : undefined;
+  }
+
+  async aggregateAppStorage(appId: number, dataset: string, collection: string, aggregate: AppAggregate, ownerUserId?: number): Promise<Record<string, unknown>[]> {
+    const scope = and(
+      collectionWhere(appId, dataset, collection),
+      ownerUserId !== undefined ? eq(appStorage.ownerUserId, ownerUserId) : undefined,
+    )!;
+    const { rows } = await db.execute<{ row: Record<string, unknown> }>(appAggregateStatement(aggregate, scope));
+    return rows.map(({ row }) => row);
+  }
+
+  /** Returns undefined when the collection already has a document with this id. */
+  async createAppStorageDoc(appId: number, dataset: string, collection: string, docId: string, data: any, ownerUserId?: number): Promise<any | undefined> {
+    return db.transaction(async (tx) => {
+      const [row] = await tx.insert(appStorage).values({ appId, dataset, collection, docId, data, ownerUserId })
+        .onConflictDoNothing({ target: APP_DOC_KEY })
+        .returning();
+      if (!row) return undefined;
+      await logAppStorageChanges(tx, appId, [row]);
+      return toAppDoc(row);
+    });
+  }
+
+  /** With a precondition, only updates a document nobody changed since the client read it; undefined otherwise. */
+  async updateAppStorageDoc(appId: number, dataset: string, collection: string, docId: string, data: any, precondition: AppDocPrecondition = {}): Promise<any | undefined> {
+    return db.transaction(async (tx) => {
+      const [row] = await tx.update(appStorage)
+        .set({ data, ...touched })
+        .where(and(
+          collectionWhere(appId, dataset, collection),
+          eq(appStorage.docId, docId),
+          unchangedSince(precondition),
+        ))
+        .returning();
+      if (!row) return undefined;
+      await logAppStorageChanges(tx, appId, [row]);
+      return toAppDoc(row);
+    });
+  }
+
+  /** ownerUserId only applies when the document is created; updates keep the original owner. */
+  async upsertAppStorageDoc(appId: number, dataset: string, collection: string, docId: string, data: any, ownerUserId?: number): Promise<any> {
+    return db.transaction(async (tx) => {
+      const [row] = await tx.insert(appStorage).values({ appId, dataset, collection, docId, data, ownerUserId })
+        .onConflictDoUpdate({
+          target: APP_DOC_KEY,
+          set: { data, ...touched },
+        })
+        .returning();
+      await logAppStorageChanges(tx, appId, [row]);
+      return toAppDoc(row);
+    });
+  }
+
+  /**
+   * The deleted document is null when there was nothing to delete, or (with a precondition) the
+   * document changed since the client read it. `allowed` sees the owner of the row actually
+   * deleted; when it refuses, the delete is rolled back and `denied` is set.
+   */
+  async deleteAppStorageDoc(appId: number, dataset: string, collection: string, docId: string, precondition: AppDocPrecondition = {}, allowed: (ownerUserId: number | null) => boolean = () => true): Promise<AppDocDeletion> {
+    let denied = false;
+    try {
+      return await db.transaction(async (tx) => {
+        const [row] = await tx.delete(appStorage)
+          .where(and(
+            collectionWhere(appId, dataset, collection),
+            eq(appStorage.docId, docId),
+            unchangedSince(precondition),
+          ))
+          .returning();
+        if (!row) return { doc: null, denied: false };
+        if (!allowed(row.ownerUserId)) {
+          denied = true;
+          return tx.rollback();
+        }
+        await logAppStorageChanges(tx, appId, [row], true);
+        return { doc: toAppDoc(row), denied: false };
+      });
+    } catch (error) {
+      if (denied) return { doc: null, denied: true };
+      throw error;
+    }
+  }
+
+  async clearAppStorage(appId: number, dataset: string, collection?: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const rows = await tx.delete(appStorage)
+        .where(collection ? collectionWhere(appId, dataset, collection) : and(eq(appStorage.appId, appId), eq(appStorage.dataset, dataset)))
+        .returning(appStorageKeyColumns);
+      await logAppStorageChanges(tx, appId, rows, true);
+    });
+  }
+
+  /**
+   * Runs an AppDB batch in one transaction: reads and locks the documents it names, lets `plan`
+   * decide every write against them, then writes. A failed plan, or a create that loses a race
+   * with another request, rolls the whole batch back.
+   */
+  async batchAppStorage(appId: number, dataset: string, keys: AppDocKey[], plan: (current: Map<string, any>) => AppBatchPlan): Promise<AppBatchOutcome> {
+    let failure: AppBatchFailure | undefined;
+    try {
+      return await db.transaction(async (tx) => {
+        // Locked in id order, so concurrent batches over the same documents cannot deadlock
+        const rows = await tx.select().from(appStorage)
+          .where(and(
+            eq(appStorage.appId, appId),
+            eq(appStorage.dataset, dataset),
+            or(...keys.map(({ collection, docId }) => and(eq(appStorage.collection, collection), eq(appStorage.docId, docId)))),
+          ))
+          .orderBy(appStorage.id)
+          .for("update");
+        const planned = plan(new Map(rows.map((row) => [appDocKey(row.collection, row.docId), toAppDoc(row)])));
+        if (!planned.success) {
+          failure = planned;
+          return tx.rollback();
+        }
+
+        const docs = new Map<string, any>();
+        for (const write of planned.writes) {
+          const where = and(collectionWhere(appId, dataset, write.collection), eq(appStorage.docId, write.docId));
+          if (write.data === null) {
+            const deleted = await tx.delete(appStorage).where(where).returning(appStorageKeyColumns);
+            await logAppStorageChanges(tx, appId, deleted, true);
+            continue;
+          }
+          const [row] = write.created
+            ? await tx.insert(appStorage)
+              .values({ appId, dataset, collection: write.collection, docId: write.docId, data: write.data, ownerUserId: write.ownerUserId })
+              .onConflictDoNothing({ target: APP_DOC_KEY })
+              .returning()
+            : await tx.update(appStorage).set({ data: write.data, ...touched }).where(where).returning();
+          if (!row) {
+            failure = { success: false, index: write.index, status: 409, error: "Document was changed since it was read" };
+            return tx.rollback();
+          }
+          await logAppStorageChanges(tx, appId, [row]);
+          docs.set(appDocKey(write.collection, write.docId), toAppDoc(row));
+        }
+        return { success: true as const, writes: planned.writes, results: planned.results, docs };
+      });
+    } catch (error) {
+      if (failure) return failure;
+      throw error;
+    }
+  }
+
+  /**
+   * One page of what an offline client needs to catch up. Without a cursor it starts a snapshot of
+   * every document (remembering where the change log stood), then continues with the changes
+   * logged since; each document appears once per page, as it is now.
+   */
+  async syncAppStorage(appId: number, dataset: string, cursor: AppSyncCursor | null, limit: number): Promise<AppSyncPage> {
+    if (!cursor || cursor.kind === "snapshot") {
+      let changeId = cursor?.changeId;
+      if (changeId === undefined) {
+        const [{ latest }] = await db.select({ latest: sql<number>`coalesce(max(${appStorageChanges.id}), 0)::int` })
+          .from(appStorageChanges)
+          .where(and(eq(appStorageChanges.appId, appId), eq(appStorageChanges.dataset, dataset)));
+        changeId = latest;
+      }
+      const rows = await db.select().from(appStorage)
+        .where(and(eq(appStorage.appId, appId), eq(appStorage.dataset, dataset), gt(appStorage.id, cursor?.afterRowId ?? 0)))
+        .orderBy(appStorage.id)
+        .limit(limit + 1);
+      const page = rows.slice(0, limit);
+      return {
+        changes: page.map((row) => ({ collection: row.collection, docId: row.docId, ownerUserId: row.ownerUserId, doc: toAppDoc(row) })),
+        // After the last snapshot page the client goes on with whatever was logged meanwhile
+        cursor: rows.length > limit
+          ? { kind: "snapshot", afterRowId: page[page.length - 1].id, changeId }
+          : { kind: "changes", changeId },
+        hasMore: true,
+        reset: !cursor,
+      };
+    }
+
+    const logged = await db.select().from(appStorageChanges)
+      .where(and(eq(appStorageChanges.appId, appId), eq(appStorageChanges.dataset, dataset), gt(appStorageChanges.id, cursor.changeId)))
+      .orderBy(appStorageChanges.id)
+      .limit(limit + 1);
+    const page = logged.slice(0, limit);
+    const latest = new Map<string, (typeof page)[number]>();
+    for (const change of page) {
+      const key = JSON.stringify([change.collection, change.docId]);
+      latest.delete(key);
+      latest.set(key, change);
+    }
+    const current = latest.size === 0 ? [] : await db.select().from(appStorage)
+      .where(and(eq(appStorage.appId, appId), eq(appStorage.dataset, dataset), inArray(appStorage.docId, Array.from(latest.values(), (change) => change.docId))));
+
+    return {
+      changes: Array.from(latest.values(), (change) => {
+        const row = current.find((doc) => doc.collection === change.collection && doc.docId === change.docId);
+        return {
+          collection: change.collection,
+          docId: change.docId,
+          ownerUserId: row ? row.ownerUserId : change.ownerUserId,
+          doc: row ? toAppDoc(row) : null,
+        };
+      }),
+      cursor: { kind: "changes", changeId: page.length ? page[page.length - 1].id : cursor.changeId },
+      hasMore: logged.length > limit,
+      reset: false,
+    };
+  }
+
+  async listAppDatasets(appId: number): Promise<string[]> {
+    const rows = await db.selectDistinct({ dataset: appStorage.dataset }).from(appStorage)
+      .where(eq(appStorage.appId, appId))
+      .orderBy(appStorage.dataset);
+    return rows.map((row) => row.dataset);
   }
 
-  async createAppStorageDoc(appId: number, collection: string, docId: string, data: any): Promise<any> {
-    const [row] = await db.insert(appStorage).values({
-      appId,
-      collection,
-      docId,
-      data: JSON.stringify(data),
-    }).returning();
-    return { id: row.docId, ...data, _createdAt: row.createdAt, _updatedAt: row.updatedAt };
+  async listAppCollections(appId: number, dataset: string): Promise<{ collection: string; count: number }[]> {
+    return db.select({ collection: appStorage.collection, count: sql<number>`count(*)::int` })
+      .from(appStorage)
+      .where(and(eq(appStorage.appId, appId), eq(appStorage.dataset, dataset)))
+      .groupBy(appStorage.collection)
+      .orderBy(appStorage.collection);
   }
 
-  async updateAppStorageDoc(appId: number, collection: string, docId: string, data: any): Promise<any | undefined> {
-    const [row] = await db.update(appStorage)
-      .set({ data: JSON.stringify(data), updatedAt: sql`CURRENT_TIMESTAMP` })
-      .where(and(eq(appStorage.appId, appId), eq(appStorage.collection, collection), eq(appStorage.docId, docId)))
+  async exportAppStorage(appId: number, dataset: string, collection?: string): Promise<{ collection: string; doc: any }[]> {
+    const rows = await db.select().from(appStorage)
+      .where(collection ? collectionWhere(appId, dataset, collection) : and(eq(appStorage.appId, appId), eq(appStorage.dataset, dataset)))
+      .orderBy(appStorage.collection, appStorage.createdAt, appStorage.id);
+    return rows.map((row) => ({ collection: row.collection, doc: toAppDoc(row) }));
+  }
+
+  /** Writes all documents in one transaction; ids that already exist are overwritten. Returns how many were written. */
+  async importAppStorageDocs(appId: number, dataset: string, collection: string, docs: { docId: string; data: any }[]): Promise<number> {
+    return db.transaction(async (tx) => {
+      let written = 0;
+      // Keeps each statement well under the driver's parameter limit
+      for (let start = 0; start < docs.length; start += 500) {
+        const rows = await tx.insert(appStorage)
+          .values(docs.slice(start, start + 500).map(({ docId, data }) => ({ appId, dataset, collection, docId, data })))
+          .onConflictDoUpdate({
+            target: APP_DOC_KEY,
+            set: { data: sql`excluded.data`, ...touched },
+          })
+          .returning(appStorageKeyColumns);
+        await logAppStorageChanges(tx, appId, rows);
+        written += rows.length;
+      }
+      return written;
+    });
+  }
+
+  async listAppStorageIndexes(appId: number): Promise<AppStorageIndex[]> {
+    return db.select().from(appStorageIndexes)
+      .where(eq(appStorageIndexes.appId, appId))
+      .orderBy(appStorageIndexes.collection, appStorageIndexes.field);
+  }
+
+  /** Returns undefined when the field is already indexed. */
+  async createAppStorageIndex(appId: number, data: InsertAppStorageIndex): Promise<AppStorageIndex | undefined> {
+    const [index] = await db.insert(appStorageIndexes).values({ appId, ...data })
+      .onConflictDoNothing()
       .returning();
-    if (!row) return undefined;
-    return { id: row.docId, ...data, _createdAt: row.createdAt, _updatedAt: row.updatedAt };
+    if (!index) return undefined;
+    try {
+      await db.execute(appStorageIndexDdl(index).create);
+    } catch (error) {
+      // A failed concurrent build leaves an invalid index behind
+      await db.execute(appStorageIndexDdl(index).drop);
+      await db.delete(appStorageIndexes).where(eq(appStorageIndexes.id, index.id));
+      throw error;
+    }
+    return index;
   }
 
-  async deleteAppStorageDoc(appId: number, collection: string, docId: string): Promise<void> {
-    await db.delete(appStorage)
-      .where(and(eq(appStorage.appId, appId), eq(appStorage.collection, collection), eq(appStorage.docId, docId)));
+  async deleteAppStorageIndex(appId: number, indexId: number): Promise<boolean> {
+    const [index] = await db.delete(appStorageIndexes)
+      .where(and(eq(appStorageIndexes.id, indexId), eq(appStorageIndexes.appId, appId)))
+      .returning();
+    if (!index) return false;
+    await db.execute(appStorageIndexDdl(index).drop);
+    return true;
   }
 
-  async clearAppStorage(appId: number, collection?: string): Promise<void> {
-    if (collection) {
-      await db.delete(appStorage)
-        .where(and(eq(appStorage.appId, appId), eq(appStorage.collection, collection)));
-    } else {
-      await db.delete(appStorage).where(eq(appStorage.appId, appId));
+  async ensureAppStorageIndexes(): Promise<void> {
+    const indexes = await db.select().from(appStorageIndexes);
+    for (const index of indexes) {
+      await db.execute(appStorageIndexDdl(index).create);
     }
   }
+
+  async listAppUsers(appId: number): Promise<AppUserProfile[]> {
+    return db.select(appUserProfileColumns).from(appUsers)
+      .where(eq(appUsers.appId, appId))
+      .orderBy(appUsers.createdAt);
+  }
+
+  async getAppUserByEmail(appId: number, email: string): Promise<AppUser | undefined> {
+    const [user] = await db.select().from(appUsers).where(and(eq(appUsers.appId, appId), eq(appUsers.email, email)));
+    return user;
+  }
+
+  async getAppUserByPhone(appId: number, phone: string): Promise<AppUser | undefined> {
+    const [user] = await db.select().from(appUsers).where(and(eq(appUsers.appId, appId), eq(appUsers.phone, phone)));
+    return user;
+  }
+
+  /** Returns undefined when the email or phone is already registered for the app. */
+  async createAppUser(data: InsertAppUser): Promise<AppUser | undefined> {
+    const [user] = await db.insert(appUsers).values(data).onConflictDoNothing().returning();
+    return user;
+  }
+
+  async setAppUserRole(appId: number, appUserId: number, role: string): Promise<AppUser | undefined> {
+    const [user] = await db.update(appUsers)
+      .set({ role })
+      .where(and(eq(appUsers.id, appUserId), eq(appUsers.appId, appId)))
+      .returning();
+    return user;
+  }
+
+  async deleteAppUser(appId: number, appUserId: number): Promise<boolean> {
+    const deleted = await db.delete(appUsers)
+      .where(and(eq(appUsers.id, appUserId), eq(appUsers.appId, appId)))
+      .returning({ id: appUsers.id });
+    return deleted.length > 0;
+  }
+
+  async createAppUserSession(appUserId: number, tokenHash: string, expiresAt: Date): Promise<void> {
+    await db.insert(appUserSessions).values({ appUserId, tokenHash, expiresAt });
+  }
+
+  async getAppUserBySession(appId: number, tokenHash: string): Promise<AppUser | undefined> {
+    const [row] = await db.select({ user: appUsers }).from(appUserSessions)
+      .innerJoin(appUsers, eq(appUserSessions.appUserId, appUsers.id))
+      .where(and(
+        eq(appUserSessions.tokenHash, tokenHash),
+        eq(appUsers.appId, appId),
+        gt(appUserSessions.expiresAt, sql`CURRENT_TIMESTAMP`),
+      ));
+    return row?.user;
+  }
+
+  async deleteAppUserSession(tokenHash: string): Promise<void> {
+    await db.delete(appUserSessions).where(eq(appUserSessions.tokenHash, tokenHash));
+  }
+
+  /** Replaces any pending code for the phone and resets its attempts. */
+  async saveAppUserOtp(appId: number, phone: string, codeHash: string, expiresAt: Date): Promise<void> {
+    await db.insert(appUserOtps).values({ appId, phone, codeHash, expiresAt })
+      .onConflictDoUpdate({
+        target: [appUserOtps.appId, appUserOtps.phone],
+        set: { codeHash, expiresAt, attempts: 0, createdAt: sql`CURRENT_TIMESTAMP` },
+      });
+  }
+
+  async getAppUserOtp(appId: number, phone: string): Promise<AppUserOtp | undefined> {
+    const [otp] = await db.select().from(appUserOtps).where(and(eq(appUserOtps.appId, appId), eq(appUserOtps.phone, phone)));
+    return otp;
+  }
+
+  async recordAppUserOtpAttempt(id: number): Promise<void> {
+    await db.update(appUserOtps).set({ attempts: sql`${appUserOtps.attempts} + 1` }).where(eq(appUserOtps.id, id));
+  }
+
+  async deleteAppUserOtp(id: number): Promise<void> {
+    await db.delete(appUserOtps).where(eq(appUserOtps.id, id));
+  }
+
+  async listAppFiles(appId: number, dataset: string): Promise<AppFile[]> {
+    return db.select().from(appFiles)
+      .where(and(eq(appFiles.appId, appId), eq(appFiles.dataset, dataset)))
+      .orderBy(desc(appFiles.createdAt), desc(appFiles.id));
+  }
+
+  async getAppFile(appId: number, dataset: string, fileId: string): Promise<AppFile | undefined> {
+    const [file] = await db.select().from(appFiles)
+      .where(and(eq(appFiles.appId, appId), eq(appFiles.dataset, dataset), eq(appFiles.fileId, fileId)));
+    return file;
+  }
+
+  /**
+   * Undefined when the file would take the app past its file quota. Uploads to one app take turns
+   * on the app's row, so concurrent ones cannot all pass the check.
+   */
+  async createAppFile(data: InsertAppFile, limits: AppFileLimits): Promise<AppFile | undefined> {
+    return db.transaction(async (tx) => {
+      await tx.select({ id: generatedApps.id }).from(generatedApps).where(eq(generatedApps.id, data.appId)).for("no key update");
+      const usage = await appFileUsage(tx, data.appId);
+      if (usage.files >= limits.quotaFiles || usage.bytes + data.size > limits.quotaBytes) return undefined;
+      const [file] = await tx.insert(appFiles).values(data).returning();
+      return file;
+    });
+  }
+
+  async deleteAppFile(appId: number, dataset: string, fileId: string): Promise<AppFile | undefined> {
+    const [file] = await db.delete(appFiles)
+      .where(and(eq(appFiles.appId, appId), eq(appFiles.dataset, dataset), eq(appFiles.fileId, fileId)))
+      .returning();
+    return file;
+  }
+
+  /** Across all datasets, like file usage; bytes are the documents' JSON text. */
+  async getAppStorageUsage(appId: number): Promise<AppStorageUsage> {
+    const [usage] = await db.select({
+      docs: sql<number>`count(*)::int`,
+      bytes: sql<number>`coalesce(sum(octet_length(${appStorage.data}::text)), 0)::bigint`.mapWith(Number),
+    }).from(appStorage).where(eq(appStorage.appId, appId));
+    return usage;
+  }
+
+  async getUserAppUsage(userId: string): Promise<AppUsageSummary[]> {
+    // Qualified by hand: drizzle leaves columns bare here, and a bare "id" would be the subquery's own
+    const appId = sql`${generatedApps}."id"`;
+    return db.select({
+      appId: generatedApps.id,
+      title: generatedApps.title,
+      docs: sql<number>`(select count(*) from ${appStorage} where ${appStorage.appId} = ${appId})::int`,
+      bytes: sql<number>`(select coalesce(sum(octet_length(${appStorage.data}::text)), 0) from ${appStorage} where ${appStorage.appId} = ${appId})::bigint`.mapWith(Number),
+      files: sql<number>`(select count(*) from ${appFiles} where ${appFiles.appId} = ${appId})::int`,
+      fileBytes: sql<number>`(select coalesce(sum(${appFiles.size}), 0) from ${appFiles} where ${appFiles.appId} = ${appId})::bigint`.mapWith(Number),
+    }).from(generatedApps)
+      .where(eq(generatedApps.userId, userId))
+      .orderBy(desc(generatedApps.createdAt));
+  }
 }
 
 export const storage = new DatabaseStorage();
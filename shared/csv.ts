@@ -0,0 +1,61 @@
+/**
+ * RFC 4180 CSV, as spreadsheets export it: quoted fields may hold commas, quotes ("") and line
+ * breaks; CRLF or LF row ends; an optional UTF-8 byte order mark. Used by AppDB import/export
+ * on the server and by the import dialog to read a file's header row.
+ */
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines (often trailing) carry no data
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  let text = value instanceof Date ? value.toISOString() : typeof value === "object" ? JSON.stringify(value) : String(value);
+  // Spreadsheets run cells starting with these as formulas
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = "'" + text;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One header row plus a row per record; objects and arrays are written as JSON. */
+export function toCsv(columns: string[], records: Record<string, unknown>[]): string {
+  const lines = [columns.map(csvCell).join(",")];
+  for (const record of records) lines.push(columns.map((column) => csvCell(record[column])).join(","));
+  return lines.join("\r\n") + "\r\n";
+}
@@ -0,0 +1,109 @@
+export type DiffOp = "equal" | "add" | "remove";
+
+export interface DiffChunk {
+  op: DiffOp;
+  lines: string[];
+}
+
+// Beyond this many changed lines the two versions are effectively rewrites; show them as such.
+const MAX_EDIT_DISTANCE = 2000;
+
+function pushLines(chunks: DiffChunk[], op: DiffOp, lines: string[]) {
+  if (lines.length === 0) return;
+  const last = chunks[chunks.length - 1];
+  if (last && last.op === op) {
+    last.lines.push(...lines);
+  } else {
+    chunks.push({ op, lines: [...lines] });
+  }
+}
+
+// Myers' O(ND) shortest edit script. Returns null when the edit distance exceeds the limit.
+function shortestEditScript(a: string[], b: string[]): Array<[DiffOp, string]> | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        return backtrack(trace, a, b);
+      }
+    }
+  }
+  return null;
+}
+
+function backtrack(trace: Int32Array[], a: string[], b: string[]): Array<[DiffOp, string]> {
+  const ops: Array<[DiffOp, string]> = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push(["equal", a[--x]]);
+      y--;
+    }
+    if (x === prevX) {
+      ops.push(["add", b[--y]]);
+    } else {
+      ops.push(["remove", a[--x]]);
+    }
+  }
+  while (x > 0 && y > 0) {
+    ops.push(["equal", a[--x]]);
+    y--;
+  }
+  return ops.reverse();
+}
+
+/** Line-based diff of two documents, grouped into runs of equal, added and removed lines. */
+export function diffLines(before: string, after: string): DiffChunk[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const chunks: DiffChunk[] = [];
+  pushLines(chunks, "equal", a.slice(0, start));
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const script = shortestEditScript(middleA, middleB);
+  if (script) {
+    for (const [op, line] of script) pushLines(chunks, op, [line]);
+  } else {
+    pushLines(chunks, "remove", middleA);
+    pushLines(chunks, "add", middleB);
+  }
+
+  pushLines(chunks, "equal", a.slice(endA));
+  return chunks;
+}
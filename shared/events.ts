@@ -0,0 +1,68 @@
+import { z } from "zod";
+import { appPlanSchema } from "./schema";
+
+/**
+ * Server-sent event protocol. Every event is framed as
+ *
+ *   id: <id>          (only on resumable streams)
+ *   event: <name>
+ *   data: <JSON payload>
+ *
+ * and long-running streams interleave `: heartbeat` comment lines so proxies keep them open.
+ * Clients must reject names and payloads that are not listed here.
+ */
+
+// Chat, build and build-job streams (/api/conversations/:id/messages, /api/jobs/:id/events)
+export const builderEventSchemas = {
+  job: z.object({ jobId: z.number() }),
+  phase: z.object({ phase: z.enum(["building", "editing"]) }),
+  content: z.object({ text: z.string() }),
+  plan: z.object({ plan: appPlanSchema }),
+  app_created: z.object({ appId: z.number() }),
+  app_updated: z.object({ appId: z.number(), revision: z.number().optional() }),
+  error: z.object({ message: z.string() }),
+  done: z.object({}),
+};
+
+// Streaming text-to-speech (/api/tts-stream)
+export const ttsEventSchemas = {
+  audio: z.object({ audio: z.string(), contentType: z.string() }),
+  error: z.object({ message: z.string() }),
+  done: z.object({}),
+};
+
+// AppDB change feeds: /api/app-storage/:appId/_events (served apps) and /api/apps/:id/data-events (builder)
+export const appDataEventSchemas = {
+  ready: z.object({}),
+  change: z.object({
+    collection: z.string(),
+    // "import" wrote many documents at once (CSV import)
+    type: z.enum(["create", "update", "delete", "clear", "import"]),
+    // null for clear and import, which touch the whole collection
+    docId: z.string().nullable(),
+    // The document after a create or update
+    doc: z.record(z.unknown()).nullable(),
+    // The page that made the change (from its app token), so it can skip its own echoes
+    clientId: z.string().nullable(),
+  }),
+};
+
+export type EventSchemas = Record<string, z.ZodTypeAny>;
+export type EventMap<S extends EventSchemas> = { [K in keyof S]: z.infer<S[K]> };
+export type StreamEvent<M> = { [K in keyof M]: { event: K; data: M[K] } }[keyof M];
+
+export type BuilderEventMap = EventMap<typeof builderEventSchemas>;
+export type BuilderEvent = StreamEvent<BuilderEventMap>;
+export type TtsEventMap = EventMap<typeof ttsEventSchemas>;
+export type TtsEvent = StreamEvent<TtsEventMap>;
+export type AppDataEventMap = EventMap<typeof appDataEventSchemas>;
+export type AppDataEvent = StreamEvent<AppDataEventMap>;
+export type AppDataChange = AppDataEventMap["change"];
+
+export const HEARTBEAT_INTERVAL_MS = 15000;
+export const HEARTBEAT = ": heartbeat\n\n";
+
+export function formatEvent<M>(event: StreamEvent<M>, id?: number | string): string {
+  const idLine = id !== undefined ? `id: ${id}\n` : "";
+  return `${idLine}event: ${String(event.event)}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
@@ -1,8 +1,11 @@
 import { sql } from "drizzle-orm";
-import { pgTable, serial, integer, text, varchar, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, serial, integer, text, varchar, timestamp, boolean, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+/** Multi-file app projects: relative path -> file content. The entry HTML is mirrored in htmlContent. */
+export type ProjectFiles = Record<string, string>;
+
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
@@ -21,12 +24,223 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+export const appPlanSchema = z.object({
+  name: z.string().min(1),
+  description: z.string(),
+  features: z.array(z.object({
+    title: z.string().min(1),
+    description: z.string().default(""),
+    enabled: z.boolean().default(true),
+  })),
+  pages: z.array(z.object({
+    name: z.string().min(1),
+    description: z.string().default(""),
+  })),
+  collections: z.array(z.object({
+    name: z.string().min(1),
+    fields: z.array(z.string()),
+  })),
+});
+
+export type AppPlan = z.infer<typeof appPlanSchema>;
+
+// AppDB.list query: field names are dotted paths into the document; id, _ownerId, _createdAt, _updatedAt and _version are built in
+export const appQueryFieldSchema = z.string().regex(
+  /^[A-Za-z0-9_]+(\.[A-Za-z0-9_]+)*$/,
+  "Field names may only contain letters, digits and underscores, with dots for nested fields",
+);
+const appQueryValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+export const appQueryOperatorsSchema = z.object({
+  eq: appQueryValueSchema,
+  ne: appQueryValueSchema,
+  lt: appQueryValueSchema,
+  lte: appQueryValueSchema,
+  gt: appQueryValueSchema,
+  gte: appQueryValueSchema,
+  in: z.array(appQueryValueSchema).max(100),
+  contains: appQueryValueSchema,
+}).partial().strict();
+
+const appQueryOrderSchema = z.object({
+  field: appQueryFieldSchema,
+  direction: z.enum(["asc", "desc"]).default("asc"),
+});
+
+// A plain value means eq; every condition must hold
+const appQueryWhereSchema = z.record(appQueryFieldSchema, z.union([appQueryValueSchema, appQueryOperatorsSchema]));
+
+/**
+ * Where the next page of an AppDB list starts: the previous page's last document (`doc`) and what
+ * it sorts by (`after`, see appQueryPosition). Offline clients only know the document; the server
+ * then looks its position up. Travels as opaque base64url JSON.
+ */
+export interface AppQueryCursor {
+  after?: unknown[];
+  doc: string;
+}
+
+const appQueryCursorSchema = z.object({
+  after: z.array(z.unknown()).min(2).max(4).optional(),
+  doc: z.string().min(1).max(500),
+}).strict();
+
+// JSON with non-ASCII characters escaped, so btoa and atob take it in browsers and Node alike
+export function encodeAppQueryCursor(cursor: AppQueryCursor): string {
+  const json = JSON.stringify(cursor).replace(/[\u0080-\uffff]/g, (c) => `\\u${c.charCodeAt(0).toString(16).padStart(4, "0")}`);
+  return btoa(json).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/** The cursor, or null when the string is not one a list handed out. */
+export function decodeAppQueryCursor(value: string): AppQueryCursor | null {
+  try {
+    const parsed = appQueryCursorSchema.safeParse(JSON.parse(atob(value.replace(/-/g, "+").replace(/_/g, "/"))));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+// Without an orderBy, documents sort by creation time, which the cursor keeps as Postgres text (to the microsecond)
+function isTimestampText(value: unknown): boolean {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d{1,6})?$/.test(value)) return false;
+  const date = new Date(`${value.slice(0, 19).replace(" ", "T")}Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 19) === value.slice(0, 19).replace(" ", "T");
+}
+
+// One value per sort key (wrapped in an array, or null where the document has none), then the row id
+function cursorFitsOrder(after: unknown[], orders: number): boolean {
+  const values = after.slice(0, -1);
+  const rowId = after[after.length - 1];
+  if (!Number.isInteger(rowId) || (rowId as number) < 1) return false;
+  if (orders === 0) return values.length === 1 && isTimestampText(values[0]);
+  return values.length === orders && values.every((value) => value === null || (Array.isArray(value) && value.length === 1));
+}
+
+export const appQuerySchema = z.object({
+  where: appQueryWhereSchema.optional(),
+  orderBy: z.union([appQueryOrderSchema, z.array(appQueryOrderSchema).max(3)]).optional(),
+  limit: z.number().int().min(1).max(1000).optional(),
+  // Opaque token from a previous page's nextCursor, for the same where and orderBy
+  cursor: z.string().max(4000).optional(),
+  select: z.array(appQueryFieldSchema).max(50).optional(),
+}).strict().superRefine((query, ctx) => {
+  if (query.cursor === undefined) return;
+  const cursor = decodeAppQueryCursor(query.cursor);
+  const orders = query.orderBy === undefined ? 0 : [query.orderBy].flat().length;
+  if (!cursor || (cursor.after && !cursorFitsOrder(cursor.after, orders))) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["cursor"], message: "Invalid cursor" });
+  }
+});
+
+export type AppQuery = z.infer<typeof appQuerySchema>;
+export type AppQueryOperators = z.infer<typeof appQueryOperatorsSchema>;
+
+// Per-collection document schema a build declares in its entry page; writes to declared collections are validated
+const appFieldNameSchema = z.string().regex(/^[A-Za-z0-9_]+$/, "Field names may only contain letters, digits and underscores");
+
+export const appFieldDefinitionSchema = z.object({
+  type: z.enum(["string", "number", "boolean", "date", "enum", "array", "object"]),
+  required: z.boolean().optional(),
+  values: z.array(z.string()).min(1).optional(),
+  default: appQueryValueSchema.optional(),
+  // Previous name of the field; saved documents are migrated when a revision renames it
+  renamedFrom: appFieldNameSchema.optional(),
+}).refine((field) => field.type !== "enum" || !!field.values, { message: "Enum fields need values", path: ["values"] });
+
+// Who may do something with a collection's documents, checked against the signed-in AppAuth user:
+// "anyone", "signedIn", "owner" (documents the user created) or "role:<name>"; a list allows any of them
+export const appAccessRuleSchema = z.string().regex(
+  /^(anyone|signedIn|owner|role:[A-Za-z0-9_-]{1,50})$/,
+  'Rules are "anyone", "signedIn", "owner" or "role:<name>"',
+);
+export const appAccessRulesSchema = z.union([appAccessRuleSchema, z.array(appAccessRuleSchema).min(1)]);
+
+export const appCollectionRulesSchema = z.object({
+  read: appAccessRulesSchema.optional(),
+  create: appAccessRulesSchema.optional(),
+  update: appAccessRulesSchema.optional(),
+  delete: appAccessRulesSchema.optional(),
+}).strict();
+
+export const appCollectionDefinitionSchema = z.object({
+  fields: z.record(appFieldNameSchema, appFieldDefinitionSchema),
+  renamedFrom: z.string().min(1).optional(),
+  rules: appCollectionRulesSchema.optional(),
+});
+
+export const appDataSchemaSchema = z.object({
+  collections: z.record(z.string().min(1), appCollectionDefinitionSchema),
+});
+
+export type AppFieldDefinition = z.infer<typeof appFieldDefinitionSchema>;
+export type AppCollectionDefinition = z.infer<typeof appCollectionDefinitionSchema>;
+export type AppAccessRules = z.infer<typeof appAccessRulesSchema>;
+export type AppCollectionRules = z.infer<typeof appCollectionRulesSchema>;
+export type AppDataSchema = z.infer<typeof appDataSchemaSchema>;
+
+function isTimeZone(zone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// A metric name maps to "count" or to { sum | avg | min | max: field }
+const appAggregateMetricSchema = z.union([
+  z.literal("count"),
+  z.object({ sum: appQueryFieldSchema }).strict(),
+  z.object({ avg: appQueryFieldSchema }).strict(),
+  z.object({ min: appQueryFieldSchema }).strict(),
+  z.object({ max: appQueryFieldSchema }).strict(),
+]);
+
+// AppDB.aggregate: metrics over the documents matching where, per groupBy value and/or date bucket.
+// Result rows carry the group fields, the bucket (under the date field's name) and the metrics;
+// orderBy refers to those names.
+export const appAggregateSchema = z.object({
+  where: appQueryWhereSchema.optional(),
+  groupBy: z.union([appQueryFieldSchema, z.array(appQueryFieldSchema).min(1).max(3)]).optional(),
+  dateBucket: z.object({
+    field: appQueryFieldSchema,
+    unit: z.enum(["day", "week", "month"]),
+    // Days of timestamps such as _createdAt are counted in this zone; plain dates stay as written
+    timezone: z.string().refine(isTimeZone, "Unknown time zone").default("UTC"),
+  }).strict().optional(),
+  metrics: z.record(appFieldNameSchema, appAggregateMetricSchema)
+    .refine((metrics) => Object.keys(metrics).length >= 1 && Object.keys(metrics).length <= 20, "Ask for 1 to 20 metrics")
+    .default({ count: "count" }),
+  orderBy: z.union([appQueryOrderSchema, z.array(appQueryOrderSchema).max(3)]).optional(),
+  limit: z.number().int().min(1).max(1000).optional(),
+}).strict().superRefine((aggregate, ctx) => {
+  const groups = [...(aggregate.groupBy === undefined ? [] : [aggregate.groupBy].flat()), ...(aggregate.dateBucket ? [aggregate.dateBucket.field] : [])];
+  const names = [...groups, ...Object.keys(aggregate.metrics)];
+  const repeated = names.find((name, i) => names.indexOf(name) !== i);
+  if (repeated) ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${repeated}" is used twice; give metrics names that differ from the grouped fields` });
+  for (const order of aggregate.orderBy === undefined ? [] : [aggregate.orderBy].flat()) {
+    if (!names.includes(order.field)) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["orderBy"], message: `Sort by a grouped field or a metric, not "${order.field}"` });
+  }
+});
+
+export type AppAggregate = z.infer<typeof appAggregateSchema>;
+export type AppAggregateMetric = z.infer<typeof appAggregateMetricSchema>;
+
+// Whose data visitors of a shared app see: the owner's dataset, their own, or the owner's without writing
+export const appDataModeSchema = z.enum(["shared", "per_visitor", "read_only"]);
+export type AppDataMode = z.infer<typeof appDataModeSchema>;
+
 export const conversations = pgTable("conversations", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
   title: text("title").notNull(),
   language: text("language").notNull().default("en-US"),
   phase: text("phase").notNull().default("planning"),
+  plan: jsonb("plan").$type<AppPlan>(),
+  // Running summary of older turns that are no longer sent to the model verbatim
+  summary: text("summary"),
+  summaryThrough: integer("summary_through"),
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
 
@@ -45,19 +259,227 @@ export const generatedApps = pgTable("generated_apps", {
   title: text("title").notNull(),
   description: text("description").notNull(),
   htmlContent: text("html_content").notNull(),
+  files: jsonb("files").$type<ProjectFiles>(),
+  dataSchema: jsonb("data_schema").$type<AppDataSchema>(),
   language: text("language").notNull().default("en-US"),
   shareId: varchar("share_id").unique(),
+  dataMode: text("data_mode").notNull().default("shared"), // AppDataMode
+  revision: integer("revision").notNull().default(1),
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
 
+export const appRevisions = pgTable("app_revisions", {
+  id: serial("id").primaryKey(),
+  appId: integer("app_id").notNull().references(() => generatedApps.id, { onDelete: "cascade" }),
+  revision: integer("revision").notNull(),
+  title: text("title").notNull(),
+  htmlContent: text("html_content").notNull(),
+  files: jsonb("files").$type<ProjectFiles>(),
+  dataSchema: jsonb("data_schema").$type<AppDataSchema>(),
+  source: text("source").notNull().default("build"),
+  messageId: integer("message_id").references(() => messages.id, { onDelete: "set null" }),
+  authorId: varchar("author_id").references(() => users.id, { onDelete: "set null" }),
+  restoredFrom: integer("restored_from"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => [
+  uniqueIndex("app_revisions_app_revision_idx").on(table.appId, table.revision),
+]);
+
+// A build runs detached from the request that started it, so clients can drop and reattach.
+export const buildJobs = pgTable("build_jobs", {
+  id: serial("id").primaryKey(),
+  conversationId: integer("conversation_id").notNull().references(() => conversations.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  status: text("status").notNull().default("running"), // running | succeeded | failed
+  // Characters of model output generated so far; also the SSE event id clients resume from
+  progress: integer("progress").notNull().default(0),
+  output: text("output").notNull().default(""),
+  appId: integer("app_id").references(() => generatedApps.id, { onDelete: "set null" }),
+  error: text("error"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// End users of a generated app (AppAuth), separate from the platform's own users.
+// They sign in with email and password or with a phone OTP; the owner assigns roles.
+export const appUsers = pgTable("app_users", {
+  id: serial("id").primaryKey(),
+  appId: integer("app_id").notNull().references(() => generatedApps.id, { onDelete: "cascade" }),
+  email: text("email"),
+  phone: text("phone"),
+  name: text("name"),
+  passwordHash: text("password_hash"),
+  role: text("role").notNull().default("user"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => [
+  uniqueIndex("app_users_email_idx").on(table.appId, table.email),
+  uniqueIndex("app_users_phone_idx").on(table.appId, table.phone),
+]);
+
+// Sign-in sessions of app users; the SDK sends the token, only its hash is stored
+export const appUserSessions = pgTable("app_user_sessions", {
+  id: serial("id").primaryKey(),
+  appUserId: integer("app_user_id").notNull().references(() => appUsers.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// The pending sign-in code for a phone number, one per app and phone
+export const appUserOtps = pgTable("app_user_otps", {
+  id: serial("id").primaryKey(),
+  appId: integer("app_id").notNull().references(() => generatedApps.id, { onDelete: "cascade" }),
+  phone: text("phone").notNull(),
+  codeHash: text("code_hash").notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => [
+  uniqueIndex("app_user_otps_phone_idx").on(table.appId, table.phone),
+]);
+
 export const appStorage = pgTable("app_storage", {
   id: serial("id").primaryKey(),
   appId: integer("app_id").notNull().references(() => generatedApps.id, { onDelete: "cascade" }),
+  // "" is the app's own dataset; per-visitor datasets are "visitor:<id>"
+  dataset: text("dataset").notNull().default(""),
   collection: text("collection").notNull(),
   docId: text("doc_id").notNull(),
-  data: text("data").notNull(),
+  data: jsonb("data").$type<Record<string, unknown>>().notNull(),
+  // AppAuth user who created the document (the "owner" rule), exposed as _ownerId
+  ownerUserId: integer("owner_user_id").references(() => appUsers.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
   updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  // Goes up by one with every write, exposed as _version for optimistic concurrency (ifVersion)
+  version: integer("version").default(1).notNull(),
+}, (table) => [
+  uniqueIndex("app_storage_doc_idx").on(table.appId, table.dataset, table.collection, table.docId),
+]);
+
+// Append-only log of document writes for offline clients: GET /api/app-storage/:appId/_sync
+// returns what changed after a log id. Deleted documents only live on here.
+export const appStorageChanges = pgTable("app_storage_changes", {
+  id: serial("id").primaryKey(),
+  appId: integer("app_id").notNull().references(() => generatedApps.id, { onDelete: "cascade" }),
+  dataset: text("dataset").notNull(),
+  collection: text("collection").notNull(),
+  docId: text("doc_id").notNull(),
+  // The document's owner at the time, so "owner" rules can filter deletions too
+  ownerUserId: integer("owner_user_id"),
+  deleted: boolean("deleted").default(false).notNull(),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => [
+  index("app_storage_changes_app_idx").on(table.appId, table.dataset, table.id),
+]);
+
+// Files apps upload through AppFiles. The contents sit in the file store (server/app-files)
+// under "<appId>/<fileId>"; this row carries what the quotas and listings need.
+export const appFiles = pgTable("app_files", {
+  id: serial("id").primaryKey(),
+  appId: integer("app_id").notNull().references(() => generatedApps.id, { onDelete: "cascade" }),
+  // Same datasets as app_storage, so per-visitor apps keep visitors' files apart too
+  dataset: text("dataset").notNull().default(""),
+  fileId: text("file_id").notNull().unique(),
+  name: text("name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  ownerUserId: integer("owner_user_id").references(() => appUsers.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// Secondary indexes app owners declare on document fields. Each is a partial expression index on
+// app_storage that server/app-query.ts creates and recreates at startup (db:push does not know them).
+export const appStorageIndexes = pgTable("app_storage_indexes", {
+  id: serial("id").primaryKey(),
+  appId: integer("app_id").notNull().references(() => generatedApps.id, { onDelete: "cascade" }),
+  collection: text("collection").notNull(),
+  field: text("field").notNull(),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => [
+  uniqueIndex("app_storage_indexes_field_idx").on(table.appId, table.collection, table.field),
+]);
+
+export const appExportFormatSchema = z.enum(["csv", "json", "ndjson"]);
+export type AppExportFormat = z.infer<typeof appExportFormatSchema>;
+
+export const appImportSchema = z.object({
+  collection: z.string().trim().min(1).max(100),
+  dataset: z.string().default(""),
+  csv: z.string().min(1, "The file is empty"),
+  // CSV column -> document field; "id" sets the document id (re-importing then updates), unmapped columns are skipped
+  mapping: z.record(z.string(), appFieldNameSchema),
+  dryRun: z.boolean().default(false),
+});
+
+// Optimistic concurrency for AppDB writes: only apply when the document is still the version the client read
+export const appDocPreconditionSchema = z.object({
+  ifVersion: z.number().int().positive().optional(),
+  ifUpdatedAt: z.string().refine((value) => !isNaN(Date.parse(value)), "ifUpdatedAt must be a date").optional(),
+});
+
+// Field operators of AppDB.patch: fields not mentioned keep their values; a field may appear in one operator only
+export const appDocPatchSchema = z.object({
+  set: z.record(appFieldNameSchema, z.unknown()).optional(),
+  increment: z.record(appFieldNameSchema, z.number()).optional(),
+  arrayUnion: z.record(appFieldNameSchema, z.array(z.unknown())).optional(),
+  arrayRemove: z.record(appFieldNameSchema, z.array(z.unknown())).optional(),
+  unset: z.array(appFieldNameSchema).optional(),
+});
+
+const appBatchTargetSchema = z.object({
+  collection: z.string().min(1).max(100),
+  docId: z.string().min(1).max(200),
+});
+
+// One write of an AppDB.batch; "update" replaces the document like PUT, "patch" applies field operators
+export const appBatchOpSchema = z.discriminatedUnion("type", [
+  appBatchTargetSchema.extend({ type: z.literal("create"), docId: appBatchTargetSchema.shape.docId.optional(), data: z.record(z.unknown()) }),
+  appBatchTargetSchema.merge(appDocPreconditionSchema).extend({ type: z.literal("update"), data: z.record(z.unknown()) }),
+  appBatchTargetSchema.merge(appDocPreconditionSchema).merge(appDocPatchSchema).extend({ type: z.literal("patch") }),
+  appBatchTargetSchema.merge(appDocPreconditionSchema).extend({ type: z.literal("delete") }),
+]);
+
+export const appBatchSchema = z.object({
+  ops: z.array(appBatchOpSchema).min(1, "A batch needs at least one write").max(100, "A batch can hold at most 100 writes"),
+});
+
+export type AppDocPrecondition = z.infer<typeof appDocPreconditionSchema>;
+export type AppDocPatch = z.infer<typeof appDocPatchSchema>;
+export type AppBatchOp = z.infer<typeof appBatchOpSchema>;
+
+export const insertAppStorageIndexSchema = z.object({
+  collection: z.string().min(1).max(100),
+  field: appQueryFieldSchema.refine((field) => !["id", "_createdAt", "_updatedAt", "_ownerId", "_version"].includes(field), {
+    message: "Built-in fields are already indexed",
+  }),
+});
+
+const appUserPhoneSchema = z.string()
+  .transform((phone) => phone.replace(/[\s()-]/g, ""))
+  .pipe(z.string().regex(/^\+?[0-9]{10,15}$/, "Enter a valid phone number"));
+
+export const appSignUpSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  password: z.string().min(8, "Password must be at least 8 characters").max(200),
+  name: z.string().trim().min(1).max(100).optional(),
+});
+
+export const appSignInSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  password: z.string().min(1).max(200),
+});
+
+export const appOtpRequestSchema = z.object({ phone: appUserPhoneSchema });
+
+export const appOtpVerifySchema = z.object({
+  phone: appUserPhoneSchema,
+  code: z.string().regex(/^[0-9]{6}$/, "The code has 6 digits"),
+  name: z.string().trim().min(1).max(100).optional(),
+});
+
+export const appUserRoleSchema = z.object({
+  role: z.string().regex(/^[A-Za-z0-9_-]{1,50}$/, "Roles may only contain letters, digits, _ and -"),
 });
 
 export const insertConversationSchema = createInsertSchema(conversations).omit({
@@ -73,12 +495,50 @@ export const insertMessageSchema = createInsertSchema(messages).omit({
 export const insertGeneratedAppSchema = createInsertSchema(generatedApps).omit({
   id: true,
   createdAt: true,
+  updatedAt: true,
   shareId: true,
 });
 
+export const insertAppRevisionSchema = createInsertSchema(appRevisions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertBuildJobSchema = createInsertSchema(buildJobs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertAppUserSchema = createInsertSchema(appUsers).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAppFileSchema = createInsertSchema(appFiles).omit({
+  id: true,
+  createdAt: true,
+});
+
 export type Conversation = typeof conversations.$inferSelect;
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
 export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type GeneratedApp = typeof generatedApps.$inferSelect;
 export type InsertGeneratedApp = z.infer<typeof insertGeneratedAppSchema>;
+export type AppRevision = typeof appRevisions.$inferSelect;
+export type InsertAppRevision = z.infer<typeof insertAppRevisionSchema>;
+export type AppRevisionSummary = Omit<AppRevision, "htmlContent" | "files" | "dataSchema">;
+export type AppRevisionMeta = Pick<InsertAppRevision, "source" | "messageId" | "authorId" | "restoredFrom">;
+export type BuildJob = typeof buildJobs.$inferSelect;
+export type InsertBuildJob = z.infer<typeof insertBuildJobSchema>;
+export type BuildJobSummary = Omit<BuildJob, "output">;
+export type AppStorageIndex = typeof appStorageIndexes.$inferSelect;
+export type InsertAppStorageIndex = z.infer<typeof insertAppStorageIndexSchema>;
+export type AppUser = typeof appUsers.$inferSelect;
+export type InsertAppUser = z.infer<typeof insertAppUserSchema>;
+/** What apps and owners get to see of an app user. */
+export type AppUserProfile = Omit<AppUser, "passwordHash">;
+export type AppUserOtp = typeof appUserOtps.$inferSelect;
+export type AppFile = typeof appFiles.$inferSelect;
+export type InsertAppFile = z.infer<typeof insertAppFileSchema>;